@@ -1,5 +1,6 @@
 import js from "@eslint/js";
 import globals from "globals";
+import tseslint from "typescript-eslint";
 import { defineConfig } from "eslint/config";
 
 export default defineConfig([
@@ -22,4 +23,25 @@ export default defineConfig([
             globals: globals.node,
         },
     },
+    {
+        files: ["**/*.ts"],
+        extends: [tseslint.configs.recommended],
+        languageOptions: {
+            globals: globals.node,
+        },
+        rules: {
+            // Express tells error handlers apart by their four parameters, the last of which may go unused
+            "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_" }],
+        },
+    },
+    {
+        files: ["tests/**/*.ts"],
+        languageOptions: {
+            globals: globals.jest,
+        },
+        rules: {
+            // Modules loaded anew inside jest.isolateModules can only be required
+            "@typescript-eslint/no-require-imports": "off",
+        },
+    },
 ]);
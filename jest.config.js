@@ -0,0 +1,16 @@
+/**
+ * Jest configuration.
+ * Tests live in tests/, mirroring the layout of src/, and are compiled with ts-jest against tsconfig.json.
+ * An embedded PostgreSQL server is started for the run (see tests/helpers/global-setup.mjs), for the tests that need a database.
+ */
+module.exports = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    testMatch: ['**/*.test.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.json' }],
+    },
+    setupFiles: ['<rootDir>/tests/helpers/test-env.ts'],
+    globalSetup: '<rootDir>/tests/helpers/global-setup.mjs',
+    globalTeardown: '<rootDir>/tests/helpers/global-teardown.mjs',
+};
@@ -0,0 +1,17 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.addColumn("idempotency_meta", "statusCode", {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "responseHeaders", {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeColumn("idempotency_meta", "responseHeaders");
+    await queryInterface.removeColumn("idempotency_meta", "statusCode");
+}
@@ -0,0 +1,32 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.addColumn("idempotency_meta", "status", {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: "completed",
+    });
+    await queryInterface.addColumn("idempotency_meta", "lockToken", {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "lockedUntil", {
+        type: DataTypes.DATE,
+        allowNull: true,
+    });
+    await queryInterface.changeColumn("idempotency_meta", "responsePayload", {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.bulkDelete("idempotency_meta", { status: "processing" });
+    await queryInterface.changeColumn("idempotency_meta", "responsePayload", {
+        type: DataTypes.TEXT,
+        allowNull: false,
+    });
+    await queryInterface.removeColumn("idempotency_meta", "lockedUntil");
+    await queryInterface.removeColumn("idempotency_meta", "lockToken");
+    await queryInterface.removeColumn("idempotency_meta", "status");
+}
@@ -0,0 +1,51 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.createTable("idempotency_outbox", {
+        id: {
+            type: DataTypes.UUID,
+            primaryKey: true,
+            defaultValue: DataTypes.UUIDV4,
+        },
+        key: {
+            type: DataTypes.STRING(255),
+            allowNull: false,
+        },
+        operation: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+        },
+        attempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        lastError: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        },
+        processedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: queryInterface.sequelize.literal("CURRENT_TIMESTAMP"),
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            defaultValue: queryInterface.sequelize.literal("CURRENT_TIMESTAMP"),
+        },
+    });
+
+    // The reconciler looks up unprocessed entries by age
+    await queryInterface.addIndex("idempotency_outbox", ["processedAt", "createdAt"], {
+        name: "idempotency_outbox_processed_at_created_at_idx",
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.dropTable("idempotency_outbox");
+}
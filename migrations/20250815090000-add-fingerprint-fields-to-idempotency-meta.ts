@@ -0,0 +1,13 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // Fields the bodyHash fingerprint was computed from; null for legacy hashes of the raw body
+    await queryInterface.addColumn("idempotency_meta", "fingerprintFields", {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeColumn("idempotency_meta", "fingerprintFields");
+}
@@ -0,0 +1,70 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // Scope columns; existing keys were only ever sent anonymously to POST /api/transactions
+    await queryInterface.addColumn("idempotency_meta", "principal", {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        defaultValue: "",
+    });
+    await queryInterface.addColumn("idempotency_meta", "method", {
+        type: DataTypes.STRING(10),
+        allowNull: false,
+        defaultValue: "POST",
+    });
+    await queryInterface.addColumn("idempotency_meta", "route", {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        defaultValue: "/api/transactions",
+    });
+    await queryInterface.changeColumn("idempotency_meta", "method", {
+        type: DataTypes.STRING(10),
+        allowNull: false,
+    });
+    await queryInterface.changeColumn("idempotency_meta", "route", {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+    });
+
+    // Replace the global primary key on "key" with a surrogate id, and make keys unique within their scope only
+    await queryInterface.removeConstraint("idempotency_meta", "idempotency_meta_pkey");
+    await queryInterface.addColumn("idempotency_meta", "id", {
+        type: DataTypes.UUID,
+        allowNull: false,
+        defaultValue: queryInterface.sequelize.literal("gen_random_uuid()"),
+    });
+    await queryInterface.addConstraint("idempotency_meta", {
+        fields: ["id"],
+        type: "primary key",
+        name: "idempotency_meta_pkey",
+    });
+    await queryInterface.addIndex("idempotency_meta", ["principal", "method", "route", "key"], {
+        name: "idempotency_meta_scope_key_unique",
+        unique: true,
+    });
+
+    // Outbox entries now hold scoped keys, which can be longer than a bare key
+    await queryInterface.changeColumn("idempotency_outbox", "key", {
+        type: DataTypes.TEXT,
+        allowNull: false,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    // Fails if the same key has been used in more than one scope, as the key can no longer be the primary key
+    await queryInterface.changeColumn("idempotency_outbox", "key", {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+    });
+    await queryInterface.removeIndex("idempotency_meta", "idempotency_meta_scope_key_unique");
+    await queryInterface.removeConstraint("idempotency_meta", "idempotency_meta_pkey");
+    await queryInterface.removeColumn("idempotency_meta", "id");
+    await queryInterface.addConstraint("idempotency_meta", {
+        fields: ["key"],
+        type: "primary key",
+        name: "idempotency_meta_pkey",
+    });
+    await queryInterface.removeColumn("idempotency_meta", "route");
+    await queryInterface.removeColumn("idempotency_meta", "method");
+    await queryInterface.removeColumn("idempotency_meta", "principal");
+}
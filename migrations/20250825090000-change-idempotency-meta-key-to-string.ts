@@ -0,0 +1,14 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // Keys are no longer necessarily UUIDs (ULID or free-form keys, depending on the route)
+    await queryInterface.changeColumn("idempotency_meta", "key", {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    // Fails if any non-UUID key has been stored
+    await queryInterface.sequelize.query(`ALTER TABLE "idempotency_meta" ALTER COLUMN "key" TYPE UUID USING "key"::uuid`);
+}
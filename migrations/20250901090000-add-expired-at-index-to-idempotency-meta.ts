@@ -0,0 +1,12 @@
+import { QueryInterface } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // The sweeper looks up expired rows by expiredAt
+    await queryInterface.addIndex("idempotency_meta", ["expiredAt"], {
+        name: "idempotency_meta_expired_at_idx",
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeIndex("idempotency_meta", "idempotency_meta_expired_at_idx");
+}
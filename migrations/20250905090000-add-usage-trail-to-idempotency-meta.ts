@@ -0,0 +1,39 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.addColumn("idempotency_meta", "firstRequestId", {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "clientIp", {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "userAgent", {
+        type: DataTypes.TEXT,
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "replayCount", {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    });
+    await queryInterface.addColumn("idempotency_meta", "lastReplayedAt", {
+        type: DataTypes.DATE,
+        allowNull: true,
+    });
+    await queryInterface.addColumn("idempotency_meta", "conflictCount", {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeColumn("idempotency_meta", "conflictCount");
+    await queryInterface.removeColumn("idempotency_meta", "lastReplayedAt");
+    await queryInterface.removeColumn("idempotency_meta", "replayCount");
+    await queryInterface.removeColumn("idempotency_meta", "userAgent");
+    await queryInterface.removeColumn("idempotency_meta", "clientIp");
+    await queryInterface.removeColumn("idempotency_meta", "firstRequestId");
+}
@@ -0,0 +1,12 @@
+import { QueryInterface } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // Cursor pagination seeks and sorts transactions by (createdAt, id)
+    await queryInterface.addIndex("transactions", ["createdAt", "id"], {
+        name: "transactions_created_at_id_idx",
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeIndex("transactions", "transactions_created_at_id_idx");
+}
@@ -0,0 +1,25 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    // A refund references the payment it refunds, which cannot be deleted while it has refunds
+    await queryInterface.addColumn("transactions", "parentTransactionId", {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: "transactions",
+            key: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "RESTRICT",
+    });
+
+    // The refunds of a transaction are looked up by parentTransactionId
+    await queryInterface.addIndex("transactions", ["parentTransactionId"], {
+        name: "transactions_parent_transaction_id_idx",
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeIndex("transactions", "transactions_parent_transaction_id_idx");
+    await queryInterface.removeColumn("transactions", "parentTransactionId");
+}
@@ -0,0 +1,57 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.createTable("consumers", {
+        id: {
+            type: DataTypes.UUID,
+            primaryKey: true,
+            defaultValue: DataTypes.UUIDV4,
+        },
+        balance: {
+            type: DataTypes.DECIMAL(12, 2),
+            allowNull: false,
+            defaultValue: 0,
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: queryInterface.sequelize.literal("CURRENT_TIMESTAMP"),
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            defaultValue: queryInterface.sequelize.literal("CURRENT_TIMESTAMP"),
+        },
+    });
+
+    // Open an account for every consumer that already has transactions, with the balance they add up to:
+    // completed payments are credited, and withdrawals, disbursements and refunds are debited unless they failed or were cancelled
+    await queryInterface.sequelize.query(`
+        INSERT INTO "consumers" ("id", "balance")
+        SELECT "consumerId", COALESCE(SUM(CASE
+            WHEN "type" = 'payment' AND "status" = 'completed' THEN "amount"
+            WHEN "type" <> 'payment' AND "status" IN ('pending', 'completed') THEN -"amount"
+            ELSE 0
+        END), 0)
+        FROM "transactions"
+        GROUP BY "consumerId"
+    `);
+
+    // Transactions can only be made for an existing consumer, which cannot be deleted while it has transactions
+    await queryInterface.addConstraint("transactions", {
+        fields: ["consumerId"],
+        type: "foreign key",
+        name: "transactions_consumer_id_fkey",
+        references: {
+            table: "consumers",
+            field: "id",
+        },
+        onUpdate: "CASCADE",
+        onDelete: "RESTRICT",
+    });
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.removeConstraint("transactions", "transactions_consumer_id_fkey");
+    await queryInterface.dropTable("consumers");
+}
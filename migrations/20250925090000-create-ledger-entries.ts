@@ -0,0 +1,69 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+export async function up(queryInterface: QueryInterface) {
+    await queryInterface.createTable("ledger_entries", {
+        id: {
+            type: DataTypes.BIGINT,
+            primaryKey: true,
+            autoIncrement: true,
+        },
+        transactionId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            references: {
+                model: "transactions",
+                key: "id",
+            },
+            onUpdate: "CASCADE",
+            onDelete: "RESTRICT",
+        },
+        account: {
+            type: DataTypes.STRING(64),
+            allowNull: false,
+        },
+        amount: {
+            type: DataTypes.DECIMAL(12, 2),
+            allowNull: false,
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: queryInterface.sequelize.literal("CURRENT_TIMESTAMP"),
+        },
+    });
+
+    // The ledger of an account is read in posting order, with its running balance
+    await queryInterface.addIndex("ledger_entries", ["account", "id"], {
+        name: "ledger_entries_account_id_idx",
+    });
+    // The entries of a transaction are summed to check that they balance
+    await queryInterface.addIndex("ledger_entries", ["transactionId"], {
+        name: "ledger_entries_transaction_id_idx",
+    });
+
+    // Post the entries of the existing transactions, matching the balances of their consumers:
+    // withdrawals, disbursements and refunds were debited when created, and given back once failed or cancelled,
+    // and payments were credited once completed, each against the clearing account
+    await queryInterface.sequelize.query(`
+        INSERT INTO "ledger_entries" ("transactionId", "account", "amount", "createdAt")
+        SELECT "transactionId", "account", "amount", "postedAt"
+        FROM (
+            SELECT "id" AS "transactionId", "consumerId"::text AS "account", -"amount" AS "amount", "createdAt" AS "postedAt", 1 AS "side"
+            FROM "transactions" WHERE "type" <> 'payment'
+            UNION ALL
+            SELECT "id", 'system:clearing', "amount", "createdAt", 2
+            FROM "transactions" WHERE "type" <> 'payment'
+            UNION ALL
+            SELECT "id", "consumerId"::text, "amount", COALESCE("updatedAt", "createdAt"), 1
+            FROM "transactions" WHERE ("type" <> 'payment' AND "status" IN ('failed', 'cancelled')) OR ("type" = 'payment' AND "status" = 'completed')
+            UNION ALL
+            SELECT "id", 'system:clearing', -"amount", COALESCE("updatedAt", "createdAt"), 2
+            FROM "transactions" WHERE ("type" <> 'payment' AND "status" IN ('failed', 'cancelled')) OR ("type" = 'payment' AND "status" = 'completed')
+        ) AS "entries"
+        ORDER BY "postedAt", "transactionId", "side"
+    `);
+}
+
+export async function down(queryInterface: QueryInterface) {
+    await queryInterface.dropTable("ledger_entries");
+}
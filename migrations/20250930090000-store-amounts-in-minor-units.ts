@@ -0,0 +1,55 @@
+import { QueryInterface, DataTypes } from "sequelize";
+
+// Rows created before currencies were introduced were all in this currency, with 2 fraction digits
+const LEGACY_CURRENCY = "USD";
+
+// Currencies whose number of fraction digits (ISO 4217 exponent) is not 2, as supported when this migration was written
+const NON_DECIMAL_EXPONENTS: Record<string, number> = {
+    BHD: 3, CLP: 0, ISK: 0, JOD: 3, JPY: 0, KRW: 0, KWD: 3, OMR: 3, TND: 3, UGX: 0, VND: 0, XAF: 0, XOF: 0,
+};
+
+// Columns holding amounts, with their decimal type and default before the migration
+const AMOUNT_COLUMNS = [
+    { table: "transactions", column: "amount", decimal: "DECIMAL(10,2)", defaultValue: null },
+    { table: "consumers", column: "balance", decimal: "DECIMAL(12,2)", defaultValue: "0" },
+    { table: "ledger_entries", column: "amount", decimal: "DECIMAL(12,2)", defaultValue: null },
+];
+
+export async function up(queryInterface: QueryInterface) {
+    for (const { table, column, defaultValue } of AMOUNT_COLUMNS) {
+        // Every amount has a currency; existing rows get the legacy currency
+        await queryInterface.addColumn(table, "currency", {
+            type: DataTypes.CHAR(3),
+            allowNull: false,
+            defaultValue: LEGACY_CURRENCY,
+        });
+        await queryInterface.sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "currency" DROP DEFAULT`);
+
+        // Store the amounts as integer minor units (cents of the legacy currency)
+        await queryInterface.sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" DROP DEFAULT`);
+        await queryInterface.sequelize.query(
+            `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE BIGINT USING ROUND("${column}" * 100)::BIGINT`,
+        );
+        if (defaultValue !== null) {
+            await queryInterface.sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" SET DEFAULT ${defaultValue}`);
+        }
+    }
+}
+
+export async function down(queryInterface: QueryInterface) {
+    // Convert minor units back to decimal amounts with the exponent of their currency
+    const exponent = `CASE "currency" ${Object.entries(NON_DECIMAL_EXPONENTS)
+        .map(([currency, digits]) => `WHEN '${currency}' THEN ${digits}`)
+        .join(" ")} ELSE 2 END`;
+
+    for (const { table, column, decimal, defaultValue } of AMOUNT_COLUMNS) {
+        await queryInterface.sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" DROP DEFAULT`);
+        await queryInterface.sequelize.query(
+            `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE ${decimal} USING "${column}" / POWER(10::NUMERIC, ${exponent})`,
+        );
+        if (defaultValue !== null) {
+            await queryInterface.sequelize.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" SET DEFAULT ${defaultValue}`);
+        }
+        await queryInterface.removeColumn(table, "currency");
+    }
+}
@@ -6,6 +6,8 @@ import swaggerUi from 'swagger-ui-express';
 import YAML from 'yamljs';
 
 // routes
+import consumerRoutes from './routes/consumer.routes';
+import idempotencyAdminRoutes from './routes/idempotency-admin.routes';
 import transactionRoutes from './routes/transaction.routes';
 
 // middlewares
@@ -36,7 +38,7 @@ app.use(helmet());
 app.use(cors);
 
 // to parse incoming request bodies in a middleware before your handlers, available under the `req.body` property.
-app.use(express.json());
+app.use(express.json({ limit: process.env.REQUEST_BODY_LIMIT || '1mb' }));
 
 // to check if any query parameters have multiple values and throws an error if it detects such pollution
 app.use(detectParameterPollution);
@@ -52,6 +54,8 @@ app.use(validateContentType('application/json'));
 
 // register all routes
 app.use('/api/transactions', generalRateLimiter, transactionRoutes);
+app.use('/api/consumers', generalRateLimiter, consumerRoutes);
+app.use('/api/admin/idempotency', generalRateLimiter, idempotencyAdminRoutes);
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocument));
 
 // to handle requests for resources that are not found
@@ -1,15 +1,33 @@
 import 'dotenv/config';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Sequelize } from 'sequelize-typescript';
 import { Dialect, Transaction } from 'sequelize';
 
 import Logger from "../utils/logger.util";
+import Consumer from '../models/consumer.model';
+import LedgerEntry from '../models/ledger-entry.model';
 import Transactions from '../models/transaction.model';
 import { IdempotencyMeta } from "../models/idempotency-meta.model"; 
+import { IdempotencyOutbox } from "../models/idempotency-outbox.model";
+
+// A hook to run once the current transaction has been committed successfully
+type PostCommitHook = () => Promise<void> | void;
+
+// The transaction of the current unit of work, with the hooks to run once it has been committed
+interface TransactionContext {
+    transaction: Transaction;
+    postCommitHooks: PostCommitHook[];
+    finished: boolean; // Set once committed or rolled back, for async work that outlives the unit of work
+}
 
 /**
  * Database configuration class.
  * This class handles the connection to the database using Sequelize.
  * It provides methods to connect, disconnect, and manage transactions.
+ * Transactions are request-scoped: withTransaction binds each one to the current async context
+ * (AsyncLocalStorage) instead of keeping it on this shared instance, so concurrent requests are isolated.
+ * Post-commit hooks can be registered on the current transaction; they only run after a successful commit
+ * (unlike Sequelize's afterCommit hooks, which also run when the commit fails) and are discarded on rollback.
  * It also allows access to the Sequelize instance and checks the connection status.
  */
 class DatabaseConfig {
@@ -22,7 +40,7 @@ class DatabaseConfig {
     private dbPass: string | undefined;
     private dialect: Dialect;
     private connected: boolean = false;
-    private transaction: Transaction | null = null;
+    private transactionContext = new AsyncLocalStorage<TransactionContext>();
 
     constructor() {
         this.env = process.env.NODE_ENV || 'development';
@@ -41,7 +59,7 @@ class DatabaseConfig {
             port: this.dbPort,
             dialect: this.dialect,
             logging: this.env !== 'production' ? console.log : false, // Set to true for debugging
-            models: [Transactions, IdempotencyMeta], // Register models
+            models: [Consumer, Transactions, LedgerEntry, IdempotencyMeta, IdempotencyOutbox], // Register models
         });
     }
 
@@ -69,43 +87,68 @@ class DatabaseConfig {
         try {
             await this.sequelize.close();
             this.connected = false;
-            this.sequelize = new Sequelize({} as any); // Reset the sequelize instance
+            this.sequelize = new Sequelize({}); // Reset the sequelize instance
             Logger.info('Database disconnected successfully');
         } catch (error) {
             Logger.error(`Error disconnecting from the database: ${error}`);
         }
     }
 
-    public async beginTransaction(): Promise<Transaction> {
+    // Run a function in a database transaction of its own
+    // The transaction is bound to the current async context, so concurrent requests never share
+    // (and never commit or roll back) each other's unit of work
+    // A call made while a transaction is already active in the current context joins that transaction
+    public async withTransaction<T>(fn: (transaction: Transaction) => Promise<T>): Promise<T> {
         if (!this.connected) {
             throw new Error("Database is not connected");
         }
-        
-        this.transaction = await this.sequelize.transaction();
-        if (!this.transaction) {
+
+        const current = this.transactionContext.getStore();
+        if (current && !current.finished) {
+            return fn(current.transaction);
+        }
+
+        const transaction = await this.sequelize.transaction();
+        if (!transaction) {
             throw new Error("Failed to start database transaction");
         }
-        return this.transaction;
-    }
 
-    public async getTransaction(): Promise<Transaction | null> {
-        return this.transaction;
-    }
+        const context: TransactionContext = { transaction, postCommitHooks: [], finished: false };
+        let result: T;
+        try {
+            result = await this.transactionContext.run(context, () => fn(transaction));
+        } catch (error) {
+            // Rollback the transaction in case of error, the post-commit hooks are discarded
+            context.finished = true;
+            await transaction.rollback();
+            throw error;
+        }
+        context.finished = true;
+        await transaction.commit();
 
-    public async commitTransaction(): Promise<void> {
-        if (!this.transaction) {
-            throw new Error("No transaction to commit");
+        // Run the post-commit hooks only now that the commit has succeeded
+        // A failing hook must not turn the committed transaction into an error for the caller
+        for (const hook of context.postCommitHooks) {
+            try {
+                await hook();
+            } catch (error) {
+                Logger.error(`Post-commit hook failed: ${error}`);
+            }
         }
-        await this.transaction.commit();
-        this.transaction = null;
+        return result;
+    }
+
+    public async getTransaction(): Promise<Transaction | null> {
+        const context = this.transactionContext.getStore();
+        return context && !context.finished ? context.transaction : null;
     }
 
-    public async rollbackTransaction(): Promise<void> {
-        if (!this.transaction) {
-            throw new Error("No transaction to rollback");
+    public onCommit(hook: PostCommitHook): void {
+        const context = this.transactionContext.getStore();
+        if (!context || context.finished) {
+            throw new Error("No transaction to register a post-commit hook on");
         }
-        await this.transaction.rollback();
-        this.transaction = null;
+        context.postCommitHooks.push(hook);
     }
 }
 
@@ -0,0 +1,64 @@
+import "dotenv/config";
+
+import MemoryIdempotencyStore from "../stores/memory-idempotency.store";
+import PostgresIdempotencyStore from "../stores/postgres-idempotency.store";
+import RedisIdempotencyStore from "../stores/redis-idempotency.store";
+import TieredIdempotencyStore from "../stores/tiered-idempotency.store";
+import { IdempotencyStore } from "../types/idempotency-store.interface";
+
+/**
+ * Idempotency store configuration class.
+ * This class selects the backend used to store idempotency records and reservations
+ * from the IDEMPOTENCY_STORE environment variable:
+ * - tiered (default): Redis in front of Postgres, read-through
+ * - redis: Redis only
+ * - postgres: Postgres only, no Redis required
+ * - memory: in-process memory, no external services required
+ */
+type IdempotencyStoreType = "tiered" | "redis" | "postgres" | "memory";
+
+class IdempotencyStoreConfig {
+    private storeType: IdempotencyStoreType;
+    private store: IdempotencyStore;
+
+    constructor() {
+        const storeType = (process.env.IDEMPOTENCY_STORE || "tiered").toLowerCase();
+        if (!["tiered", "redis", "postgres", "memory"].includes(storeType)) {
+            throw new Error(`Invalid IDEMPOTENCY_STORE "${storeType}". Expected one of: tiered, redis, postgres, memory.`);
+        }
+        this.storeType = storeType as IdempotencyStoreType;
+
+        switch (this.storeType) {
+            case "redis":
+                this.store = new RedisIdempotencyStore();
+                break;
+            case "postgres":
+                this.store = new PostgresIdempotencyStore();
+                break;
+            case "memory":
+                this.store = new MemoryIdempotencyStore();
+                break;
+            default:
+                // The outbox lets the reconciler repair Redis when it missed a change committed to Postgres
+                this.store = new TieredIdempotencyStore([new RedisIdempotencyStore(), new PostgresIdempotencyStore({ outbox: true })]);
+        }
+    }
+
+    public getStore(): IdempotencyStore {
+        return this.store;
+    }
+
+    public getStoreType(): IdempotencyStoreType {
+        return this.storeType;
+    }
+
+    public usesRedis(): boolean {
+        return this.storeType === "tiered" || this.storeType === "redis";
+    }
+
+    public usesDatabase(): boolean {
+        return this.storeType === "tiered" || this.storeType === "postgres";
+    }
+}
+
+export default new IdempotencyStoreConfig();
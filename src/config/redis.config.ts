@@ -1,6 +1,7 @@
 import "dotenv/config";
 import Redis from "ioredis";
 
+import CircuitBreaker from "../utils/circuit-breaker.util";
 import Logger from "../utils/logger.util";
 
 /**
@@ -9,6 +10,8 @@ import Logger from "../utils/logger.util";
  * It provides methods to connect, disconnect, and manage the Redis client.
  * It also allows access to the Redis client and checks the connection status.
  * It supports basic operations like ping and flushing the database.
+ * Commands are guarded by a circuit breaker, so that an unavailable Redis fails fast
+ * and callers can degrade gracefully until the background probe sees it recover.
  */
 class RedisConfig {
     private redisClient: Redis;
@@ -18,6 +21,9 @@ class RedisConfig {
     private username?: string;
     private password?: string;
     private connectTimeout: number;
+    private commandTimeout: number;
+    private breaker: CircuitBreaker;
+    private closing: boolean = false;
 
     constructor() {
         this.host = process.env.REDIS_HOST || "127.0.0.1";
@@ -26,6 +32,7 @@ class RedisConfig {
         this.username = process.env.REDIS_USER;
         this.password = process.env.REDIS_PASS;
         this.connectTimeout = Number(process.env.REDIS_CONNECT_TIMEOUT) || 10000;
+        this.commandTimeout = Number(process.env.REDIS_COMMAND_TIMEOUT) || 2000;
 
         this.redisClient = new Redis({
             host: this.host,
@@ -34,7 +41,34 @@ class RedisConfig {
             username: this.username,
             password: this.password,
             connectTimeout: this.connectTimeout,
+            commandTimeout: this.commandTimeout,
+            maxRetriesPerRequest: 1, // Fail commands fast while disconnected instead of queueing them
+            lazyConnect: true, // Connect on demand, so the client stays idle when Redis is not used
         });
+
+        this.breaker = new CircuitBreaker("Redis", {
+            failureThreshold: Number(process.env.REDIS_BREAKER_FAILURE_THRESHOLD) || 3,
+            probeIntervalMs: Number(process.env.REDIS_BREAKER_PROBE_INTERVAL_MS) || 5000,
+            probe: async () => (await this.redisClient.ping()) === "PONG",
+        });
+
+        // Open the circuit as soon as the connection is lost, without waiting for commands to fail
+        this.redisClient.on("error", (error) => {
+            Logger.warn(`Redis connection error: ${error.message}`);
+        });
+        this.redisClient.on("close", () => {
+            if (!this.closing) {
+                this.breaker.trip("connection closed");
+            }
+        });
+    }
+
+    public async execute<T>(fn: (client: Redis) => Promise<T>): Promise<T> {
+        return this.breaker.execute(() => fn(this.redisClient));
+    }
+
+    public isAvailable(): boolean {
+        return !this.breaker.isOpen();
     }
 
     public async getClient(): Promise<Redis> {
@@ -67,6 +101,8 @@ class RedisConfig {
 
     public async quit(): Promise<void> {
         try {
+            this.closing = true;
+            this.breaker.stop();
             await this.redisClient.quit();
             Logger.info("Redis connection closed successfully.");
         } catch (error) {
@@ -0,0 +1,40 @@
+import "dotenv/config";
+
+import SimulatedSettlementProcessor from "../processors/simulated-settlement.processor";
+import { SettlementProcessor } from "../types/settlement.interface";
+
+/**
+ * Settlement processor configuration class.
+ * This class selects the processor the settlement worker settles transactions with
+ * from the SETTLEMENT_PROCESSOR environment variable:
+ * - simulated (default): a local simulation of a payment provider, no external services required
+ * Another processor (e.g. a payment provider client implementing SettlementProcessor) can be plugged in
+ * with setProcessor before the worker starts.
+ */
+type SettlementProcessorType = "simulated";
+
+class SettlementProcessorConfig {
+    private processor: SettlementProcessor;
+
+    constructor() {
+        const processorType = (process.env.SETTLEMENT_PROCESSOR || "simulated").toLowerCase();
+        if (!["simulated"].includes(processorType)) {
+            throw new Error(`Invalid SETTLEMENT_PROCESSOR "${processorType}". Expected one of: simulated.`);
+        }
+
+        switch (processorType as SettlementProcessorType) {
+            default:
+                this.processor = new SimulatedSettlementProcessor();
+        }
+    }
+
+    public getProcessor(): SettlementProcessor {
+        return this.processor;
+    }
+
+    public setProcessor(processor: SettlementProcessor): void {
+        this.processor = processor;
+    }
+}
+
+export default new SettlementProcessorConfig();
@@ -0,0 +1,75 @@
+import "dotenv/config";
+import { Request, Response } from "express";
+
+import AppError from "../exceptions/app-error.exception";
+import ConsumerService from "../services/consumer.service";
+import FormatResponse from "../utils/response.util";
+import LedgerService from "../services/ledger.service";
+import ParseQuery from "../utils/parse-query.util";
+import { ConsumerBalanceResponse, ConsumerResponse } from "../dtos/consumer-response.dto";
+import { ConsumerIdSchema, ConsumerRequestSchema } from "../dtos/consumer-request.dto";
+import { LedgerQuerySchema } from "../dtos/ledger-request.dto";
+
+// Validate the consumer ID path parameter
+const parseConsumerId = (req: Request): string => {
+    const result = ConsumerIdSchema.safeParse(req.params.id);
+    if (!result.success) {
+        throw AppError.BadRequest("Invalid consumer ID", result.error.errors.map((error) => error.message));
+    }
+    return result.data;
+};
+
+/**
+ * ConsumerController handles the consumer-related endpoints.
+ * It provides methods to open consumer accounts, and to read their balance and their ledger.
+ * It uses ConsumerService and LedgerService to handle the business logic.
+ */
+class ConsumerController {
+    async createConsumer(req: Request, res: Response): Promise<void> {
+        // The body is validated by the Validate middleware against the ConsumerRequestSchema
+        const consumerRequest = ConsumerRequestSchema.parse(req.body);
+        const consumer: ConsumerResponse = await ConsumerService.createConsumer(consumerRequest);
+
+        res.status(201).json(
+            FormatResponse({
+                message: "Consumer created successfully",
+                data: consumer,
+                req,
+            })
+        );
+    }
+
+    async getBalance(req: Request, res: Response): Promise<void> {
+        const balance: ConsumerBalanceResponse = await ConsumerService.getBalance(parseConsumerId(req));
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Balance fetched successfully",
+                data: balance,
+                req,
+            })
+        );
+    }
+
+    async getLedger(req: Request, res: Response): Promise<void> {
+        // Validate the pagination against the LedgerQuerySchema
+        const query = ParseQuery(LedgerQuerySchema, req);
+        const { entries, total } = await LedgerService.getAccountLedger(parseConsumerId(req), query);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Ledger fetched successfully",
+                data: entries,
+                pagination: {
+                    page: query.page,
+                    limit: query.limit,
+                    total,
+                    totalPages: Math.ceil(total / query.limit),
+                },
+                req,
+            })
+        );
+    }
+}
+
+export default new ConsumerController();
@@ -0,0 +1,87 @@
+import "dotenv/config";
+import { Request, Response } from "express";
+
+import FormatResponse from "../utils/response.util";
+import IdempotencyAdminService from "../services/idempotency-admin.service";
+import ParseQuery from "../utils/parse-query.util";
+import {
+    IdempotencyKeyExactScopeQuerySchema,
+    IdempotencyKeyListQuerySchema,
+    IdempotencyKeyScopeQuerySchema,
+} from "../dtos/idempotency-admin-request.dto";
+
+/**
+ * IdempotencyAdminController handles the idempotency admin endpoints.
+ * It provides methods to look up, list, force-expire and delete idempotency keys,
+ * and to list in-flight reservations.
+ * It uses IdempotencyAdminService to handle the business logic.
+ */
+
+class IdempotencyAdminController {
+    async listKeys(req: Request, res: Response): Promise<void> {
+        const query = ParseQuery(IdempotencyKeyListQuerySchema, req);
+        const keys = await IdempotencyAdminService.listKeys(query);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Idempotency keys fetched successfully",
+                data: keys,
+                req,
+            })
+        );
+    }
+
+    async lookupKey(req: Request, res: Response): Promise<void> {
+        const scope = ParseQuery(IdempotencyKeyScopeQuerySchema, req);
+        const states = await IdempotencyAdminService.lookupKey(req.params.key as string, scope);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Idempotency key fetched successfully",
+                data: states,
+                req,
+            })
+        );
+    }
+
+    async expireKey(req: Request, res: Response): Promise<void> {
+        const scope = ParseQuery(IdempotencyKeyExactScopeQuerySchema, req);
+        const result = await IdempotencyAdminService.expireKey(req.params.key as string, scope);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Idempotency key expired successfully",
+                data: result,
+                req,
+            })
+        );
+    }
+
+    async deleteKey(req: Request, res: Response): Promise<void> {
+        const scope = ParseQuery(IdempotencyKeyExactScopeQuerySchema, req);
+        const result = await IdempotencyAdminService.deleteKey(req.params.key as string, scope);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Idempotency key deleted successfully",
+                data: result,
+                req,
+            })
+        );
+    }
+
+    async listReservations(req: Request, res: Response): Promise<void> {
+        const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+        const reservations = await IdempotencyAdminService.listReservations(limit);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "In-flight reservations fetched successfully",
+                data: reservations,
+                req,
+            })
+        );
+    }
+}
+
+export default new IdempotencyAdminController();
@@ -3,15 +3,62 @@ import { Request, Response } from "express";
 
 import AppError from "../exceptions/app-error.exception";
 import FormatResponse from "../utils/response.util";
+import BatchIdempotency from "../utils/batch-idempotency.util";
+import ParseQuery from "../utils/parse-query.util";
+import TransactionBatchService from "../services/transaction-batch.service";
 import TransactionService from "../services/transaction.service";
-import { IdempotencyInterface } from "../types/idempotency.interface";
-import { TransactionRequestSchema } from "../dtos/transaction-request.dto";
-import { TransactionResponse } from "../dtos/transaction-response.dto";
+import { RefundRequestSchema, TransactionBatchRequestSchema, TransactionIdSchema, TransactionListQuery, TransactionListQuerySchema, TransactionRequestSchema, TransactionStatusUpdateSchema } from "../dtos/transaction-request.dto";
+import { TransactionBatchResponse, TransactionDetailResponse, TransactionResponse } from "../dtos/transaction-response.dto";
+import { resolveConsumerPrincipal } from "../utils/idempotency-scope.util";
+
+// Validate the transaction ID path parameter
+const parseTransactionId = (req: Request): string => {
+    const result = TransactionIdSchema.safeParse(req.params.id);
+    if (!result.success) {
+        throw AppError.BadRequest("Invalid transaction ID", result.error.errors.map((error) => error.message));
+    }
+    return result.data;
+};
+
+// Build the link to another page of the list, with the same query but the given cursor
+const buildPageLink = (req: Request, cursor: string): string => {
+    const url = new URL(req.originalUrl, 'http://localhost');
+    url.searchParams.delete('page');
+    url.searchParams.delete('pagination');
+    url.searchParams.set('cursor', cursor);
+    return `${url.pathname}${url.search}`;
+};
+
+// Send a page of transactions read with cursor pagination, with the links to the next and previous pages
+// in the pagination metadata and in the Link header
+const sendCursorPage = async (req: Request, res: Response, query: TransactionListQuery): Promise<void> => {
+    const { transactions, nextCursor, prevCursor } = await TransactionService.getTransactionsByCursor(query);
+    const next = nextCursor ? buildPageLink(req, nextCursor) : null;
+    const prev = prevCursor ? buildPageLink(req, prevCursor) : null;
+
+    const links = [next ? `<${next}>; rel="next"` : null, prev ? `<${prev}>; rel="prev"` : null].filter(Boolean);
+    if (links.length > 0) {
+        res.setHeader('Link', links.join(', '));
+    }
+
+    res.status(200).json(
+        FormatResponse({
+            message: "Transactions fetched successfully",
+            data: transactions,
+            pagination: {
+                limit: query.limit,
+                next,
+                prev,
+            },
+            req,
+        })
+    );
+};
 
 /**
  * TransactionController handles the transaction-related endpoints.
- * It provides methods to create and retrieve transactions.
- * It uses TransactionService to handle the business logic.
+ * It provides methods to create and retrieve transactions (one by one or in batches), to change their status, and to refund payments.
+ * It uses TransactionService and TransactionBatchService to handle the business logic.
  */
 class TransactionController {
     async createTransaction(req: Request, res: Response): Promise<void> {
@@ -19,15 +66,10 @@ class TransactionController {
         // This will throw a ZodError if validation fails
         const transactionRequest = TransactionRequestSchema.parse(req.body);
 
-        // Extract the idempotency key from the idempotency request
-        const idempotencyContext: IdempotencyInterface = req.idempotency;
-        if (!idempotencyContext || !idempotencyContext.key || !idempotencyContext.bodyHash) {
-            throw AppError.BadRequest("Invalid idempotency context", "Idempotency key and body hash are required for transaction creation.");
-        }
-
         // Call the TransactionService to handle the transaction creation logic
         // This will throw an error if the creation fails for any reason
-        const transaction: TransactionResponse = await TransactionService.createTransaction(idempotencyContext.key, idempotencyContext.bodyHash, transactionRequest);
+        // The response is recorded for idempotent replay by the idempotency middleware
+        const transaction: TransactionResponse = await TransactionService.createTransaction(transactionRequest);
 
         res.status(201).json(
             FormatResponse({
@@ -38,22 +80,101 @@ class TransactionController {
         );
     }
 
+    async createTransactionBatch(req: Request, res: Response): Promise<void> {
+        // The envelope is validated by the Validate middleware against the TransactionBatchRequestSchema,
+        // and each transaction request is validated with its item
+        const batchRequest = TransactionBatchRequestSchema.parse(req.body);
+
+        // Each item is idempotent under its own key, as if it had been sent on its own to POST /api/transactions,
+        // so it is scoped with the principal resolver of that route (see transaction.routes)
+        // The batch response is recorded for idempotent replay under the batch key by the idempotency middleware
+        const itemIdempotency = new BatchIdempotency(req, res, { method: 'POST', route: req.baseUrl, scope: resolveConsumerPrincipal });
+        const batch: TransactionBatchResponse = await TransactionBatchService.createTransactionBatch(batchRequest, itemIdempotency);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Transaction batch processed",
+                data: batch,
+                req,
+            })
+        );
+    }
+
     async getAllTransactions(req: Request, res: Response): Promise<void> {
-        const page = parseInt(req.query.page as string) || 1;
-        const limit = parseInt(req.query.limit as string) || 10;
-        const offset = (page - 1) * limit;
-        const sortBy = req.query.sortBy as string || 'createdAt';
-        const sortOrder = req.query.sortOrder as string || 'desc';
-
-        const transactions: TransactionResponse[] = await TransactionService.getAllTransactions(limit, offset, sortBy, sortOrder);
-        if (!transactions || transactions.length === 0) {
-            throw AppError.NotFound("No transactions found", "There are no transactions available at the moment.");
+        // Validate the filters, sorting and pagination against the TransactionListQuerySchema
+        const query = ParseQuery(TransactionListQuerySchema, req);
+        if (query.pagination === 'cursor') {
+            await sendCursorPage(req, res, query);
+            return;
         }
 
+        const { transactions, total } = await TransactionService.getAllTransactions(query);
+
+        // An empty page is a valid result, not a missing resource
         res.status(200).json(
             FormatResponse({
                 message: "Transactions fetched successfully",
                 data: transactions,
+                pagination: {
+                    page: query.page,
+                    limit: query.limit,
+                    total,
+                    totalPages: Math.ceil(total / query.limit),
+                },
+                req,
+            })
+        );
+    }
+
+    async getTransactionById(req: Request, res: Response): Promise<void> {
+        // The transaction is returned with its refunds
+        const transaction: TransactionDetailResponse = await TransactionService.getTransactionById(parseTransactionId(req));
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Transaction fetched successfully",
+                data: transaction,
+                req,
+            })
+        );
+    }
+
+    async updateTransactionStatus(req: Request, res: Response): Promise<void> {
+        // The status is validated by the Validate middleware against the TransactionStatusUpdateSchema
+        const { status } = TransactionStatusUpdateSchema.parse(req.body);
+        const transaction: TransactionResponse = await TransactionService.updateTransactionStatus(parseTransactionId(req), status);
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Transaction status updated successfully",
+                data: transaction,
+                req,
+            })
+        );
+    }
+
+    async cancelTransaction(req: Request, res: Response): Promise<void> {
+        const transaction: TransactionResponse = await TransactionService.cancelTransaction(parseTransactionId(req));
+
+        res.status(200).json(
+            FormatResponse({
+                message: "Transaction cancelled successfully",
+                data: transaction,
+                req,
+            })
+        );
+    }
+
+    async refundTransaction(req: Request, res: Response): Promise<void> {
+        // The amount is validated by the Validate middleware against the RefundRequestSchema
+        // Without an amount, whatever is left to refund of the payment is refunded
+        const refundRequest = RefundRequestSchema.parse(req.body);
+        const refund: TransactionResponse = await TransactionService.refundTransaction(parseTransactionId(req), refundRequest);
+
+        res.status(201).json(
+            FormatResponse({
+                message: "Refund created successfully",
+                data: refund,
                 req,
             })
         );
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+import { CurrencySchema } from "./transaction-request.dto";
+
+/**
+ * ConsumerRequestSchema defines the structure of a request to open a consumer account.
+ * The ID is optional: it can be given to open the account of a consumer known to another system,
+ * and is generated otherwise. Accounts are opened with a zero balance in the given ISO 4217 currency,
+ * and only hold transactions in that currency.
+ */
+export const ConsumerRequestSchema = z.object({
+    id: z.string().uuid("Invalid consumer ID format").optional(),
+    currency: CurrencySchema,
+});
+
+export type ConsumerRequest = z.infer<typeof ConsumerRequestSchema>;
+
+/**
+ * ConsumerIdSchema validates the consumer ID path parameter, which must be a valid UUID.
+ */
+export const ConsumerIdSchema = z.string().uuid("Invalid consumer ID format");
@@ -0,0 +1,22 @@
+/**
+ * ConsumerResponse defines the structure of a consumer account response.
+ * It includes the id of the consumer, the balance and currency of its account, createdAt, and updatedAt.
+ * Balances are exact decimal strings with the number of fraction digits of their currency.
+ */
+export interface ConsumerResponse {
+    id: string;
+    balance: string;
+    currency: string;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * ConsumerBalanceResponse defines the balance of a consumer account, and when it last changed.
+ */
+export interface ConsumerBalanceResponse {
+    consumerId: string;
+    balance: string;
+    currency: string;
+    updatedAt?: Date;
+}
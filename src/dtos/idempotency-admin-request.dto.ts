@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * IdempotencyKeyListQuerySchema defines the filters for listing idempotency keys.
+ * Keys can be filtered by scope (principal, method, route), by key prefix, by status,
+ * by whether they have expired, and by creation time. Results are paginated with limit and offset.
+ */
+export const IdempotencyKeyListQuerySchema = z.object({
+    principal: z.string().optional(),
+    method: z.string().transform((method) => method.toUpperCase()).optional(),
+    route: z.string().optional(),
+    key: z.string().optional(),
+    status: z.enum(['processing', 'unknown', 'completed']).optional(),
+    expired: z.enum(['true', 'false']).transform((expired) => expired === 'true').optional(),
+    since: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type IdempotencyKeyListQuery = z.infer<typeof IdempotencyKeyListQuerySchema>;
+
+/**
+ * IdempotencyKeyScopeQuerySchema defines the scope of a key for looking it up.
+ * All fields are optional: a lookup returns the key in every scope matching the given ones.
+ */
+export const IdempotencyKeyScopeQuerySchema = z.object({
+    principal: z.string().optional(),
+    method: z.string().transform((method) => method.toUpperCase()).optional(),
+    route: z.string().optional(),
+});
+
+export type IdempotencyKeyScopeQuery = z.infer<typeof IdempotencyKeyScopeQuerySchema>;
+
+/**
+ * IdempotencyKeyExactScopeQuerySchema defines the exact scope of a key for changing it (force-expire or delete).
+ * The method and route are required, so that a single scoped key is targeted; the principal defaults to anonymous.
+ */
+export const IdempotencyKeyExactScopeQuerySchema = z.object({
+    principal: z.string().default(''),
+    method: z.string().min(1).transform((method) => method.toUpperCase()),
+    route: z.string().min(1),
+});
+
+export type IdempotencyKeyExactScopeQuery = z.infer<typeof IdempotencyKeyExactScopeQuerySchema>;
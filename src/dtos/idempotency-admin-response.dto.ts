@@ -0,0 +1,139 @@
+/**
+ * IdempotencyDatabaseState describes the idempotency_meta row of a scoped key.
+ * It includes its status, fingerprint, expiry, in-flight reservation and the stored response.
+ */
+export interface IdempotencyDatabaseState {
+    id: string;
+    status: string; // 'processing', 'unknown' or 'completed'
+    bodyHash: string;
+    fingerprintFields?: string | null;
+    statusCode?: number;
+    responseHeaders?: Record<string, string>;
+    responsePayload?: string;
+    lockedUntil?: Date | null;
+    createdAt: Date;
+    updatedAt?: Date;
+    expiredAt?: Date;
+    expired: boolean;
+}
+
+/**
+ * IdempotencyRedisState describes the Redis state of a scoped key.
+ * "unavailable" means Redis could not be reached, and "disabled" that the configured store does not use Redis.
+ * When available, it includes the cached record and the in-flight lock with their remaining TTL,
+ * and whether the cached record matches the database.
+ */
+export interface IdempotencyRedisState {
+    state: 'available' | 'unavailable' | 'disabled';
+    record?: {
+        bodyHash: string;
+        fingerprintFields?: string;
+        statusCode?: number;
+        expiredAt?: Date;
+        ttlSeconds: number;
+        matchesDatabase?: boolean;
+    } | null;
+    lock?: {
+        token: string;
+        ttlSeconds: number;
+    } | null;
+}
+
+/**
+ * IdempotencyUsageTrail describes how a key has been used: the first request (its request ID, client IP and user agent),
+ * how many times its response was replayed and when it last was, and how many conflicting attempts were rejected.
+ * The counts include the counters still waiting in Redis to be flushed to the database, which are also shown apart.
+ */
+export interface IdempotencyUsageTrail {
+    firstRequestId?: string | null;
+    clientIp?: string | null;
+    userAgent?: string | null;
+    replayCount: number;
+    lastReplayedAt?: Date | null;
+    conflictCount: number;
+    pending: {
+        replayCount: number;
+        conflictCount: number;
+    } | null; // null when Redis is unavailable
+}
+
+/**
+ * IdempotencyKeyState describes a scoped idempotency key in both stores, with its usage trail.
+ */
+export interface IdempotencyKeyState {
+    scopedKey: string;
+    principal: string;
+    method: string;
+    route: string;
+    key: string;
+    database: IdempotencyDatabaseState | null;
+    redis: IdempotencyRedisState;
+    trail: IdempotencyUsageTrail;
+}
+
+/**
+ * IdempotencyReservationState describes an in-flight reservation of a scoped key,
+ * as held in the database (with its lease expiry) and/or in Redis (with its lock TTL),
+ * and whether its outcome is unknown (the request missed its handler deadline but may still complete).
+ */
+export interface IdempotencyReservationState {
+    scopedKey: string;
+    principal: string;
+    method: string;
+    route: string;
+    key: string;
+    database?: {
+        lockedUntil?: Date | null;
+        stale: boolean;
+        outcomeUnknown: boolean;
+        createdAt: Date;
+    };
+    redis?: {
+        token: string;
+        ttlSeconds: number;
+        outcomeUnknown: boolean;
+    };
+}
+
+/**
+ * IdempotencyReservationList lists the in-flight reservations,
+ * with the state of Redis when its locks were listed.
+ */
+export interface IdempotencyReservationList {
+    redis: IdempotencyRedisState['state'];
+    reservations: IdempotencyReservationState[];
+}
+
+/**
+ * IdempotencyKeySummary describes an idempotency key in a list of keys, without its stored response.
+ */
+export interface IdempotencyKeySummary {
+    scopedKey: string;
+    principal: string;
+    method: string;
+    route: string;
+    key: string;
+    status: string; // 'processing', 'unknown' or 'completed'
+    statusCode?: number;
+    replayCount: number;
+    conflictCount: number;
+    createdAt: Date;
+    expiredAt?: Date;
+    expired: boolean;
+}
+
+/**
+ * IdempotencyKeyChangeResult describes the outcome of force-expiring or deleting a scoped key:
+ * the number of database rows changed, and the number of Redis keys deleted
+ * (or whether Redis was unavailable, in which case the reconciler finishes the change later).
+ */
+export interface IdempotencyKeyChangeResult {
+    scopedKey: string;
+    database: {
+        affectedRows: number;
+    };
+    redis: {
+        state: 'available' | 'unavailable' | 'disabled';
+        deletedKeys?: number;
+    };
+}
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+/**
+ * LedgerQuerySchema defines the query parameters for reading the ledger of an account.
+ * Entries are read in posting order (oldest first), and paginated with page and limit.
+ */
+export const LedgerQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type LedgerQuery = z.infer<typeof LedgerQuerySchema>;
@@ -0,0 +1,23 @@
+/**
+ * LedgerEntryResponse defines the structure of a ledger entry of an account.
+ * The amount is signed: positive when it credits the account, negative when it debits it (see direction).
+ * Amounts and balances are exact decimal strings in the currency of the account.
+ * The running balance is the balance of the account once the entry was posted.
+ */
+export interface LedgerEntryResponse {
+    id: string;
+    transactionId: string;
+    direction: string; // 'credit' or 'debit'
+    amount: string;
+    currency: string;
+    runningBalance: string;
+    createdAt: Date;
+}
+
+/**
+ * LedgerPage defines a page of the ledger of an account, with the total number of entries.
+ */
+export interface LedgerPage {
+    entries: LedgerEntryResponse[];
+    total: number;
+}
@@ -1,16 +1,138 @@
+import "dotenv/config";
 import { z } from "zod";
 
+import { isDecimalAmount, SUPPORTED_CURRENCIES, toMinorUnits } from "../utils/amount.util";
+
+/**
+ * AmountSchema validates an amount in decimal form, as a string (exact) or a JSON number.
+ * CurrencySchema validates an ISO 4217 currency code among the supported currencies.
+ */
+export const AmountSchema = z.union([z.string(), z.number()]).refine(isDecimalAmount, "Amount must be a non-negative decimal number");
+
+export const CurrencySchema = z.enum(SUPPORTED_CURRENCIES, { message: "Unsupported currency, expected an ISO 4217 code such as USD" });
+
 /**
  * TransactionRequestSchema defines the structure of a transaction request.
- * It validates that the request contains a type, amount, and consumerId.
- * The type must be one of 'payment', 'withdrawal', or 'disbursement'.
- * The amount must be a positive number.
+ * It validates that the request contains a type, amount, currency, and consumerId.
+ * The type must be one of 'payment', 'withdrawal', 'disbursement', or 'refund'.
+ * The amount must be a non-negative decimal, with at most as many fraction digits as its currency has (e.g. 2 for USD, 0 for JPY).
+ * The currency must be a supported ISO 4217 code, and the one of the consumer account.
  * The consumerId must be a valid UUID format.
+ * A refund must reference the payment it refunds with parentTransactionId, which other types cannot have.
  */
 export const TransactionRequestSchema = z.object({
-    type: z.enum(['payment', 'withdrawal', 'disbursement']),
-    amount: z.number().min(0, "Amount must be a positive number"),
+    type: z.enum(['payment', 'withdrawal', 'disbursement', 'refund']),
+    amount: AmountSchema,
+    currency: CurrencySchema,
     consumerId: z.string().uuid("Invalid consumer ID format"),
+    parentTransactionId: z.string().uuid("Invalid parent transaction ID format").optional(),
+}).refine((request) => (request.type === 'refund') === (request.parentTransactionId !== undefined), {
+    message: "parentTransactionId is required for refunds, and only for refunds",
+    path: ['parentTransactionId'],
+}).refine((request) => !isDecimalAmount(request.amount) || toMinorUnits(request.amount, request.currency) !== null, {
+    message: "Amount has more fraction digits than its currency allows, or is too large",
+    path: ['amount'],
+});
+
+export type TransactionRequest = z.infer<typeof TransactionRequestSchema>;
+
+/**
+ * TransactionIdSchema validates the transaction ID path parameter, which must be a valid UUID.
+ */
+export const TransactionIdSchema = z.string().uuid("Invalid transaction ID format");
+
+/**
+ * TransactionStatusUpdateSchema defines the structure of a transaction status update request.
+ * A pending transaction can only be settled as 'completed' or 'failed'; it is cancelled through its cancel endpoint.
+ */
+export const TransactionStatusUpdateSchema = z.object({
+    status: z.enum(['completed', 'failed']),
+});
+
+export type TransactionStatusUpdate = z.infer<typeof TransactionStatusUpdateSchema>;
+
+/**
+ * RefundRequestSchema defines the structure of a refund request for a payment.
+ * The amount is optional: without it, the whole amount not refunded yet is refunded.
+ * It is in the currency of the payment.
+ */
+export const RefundRequestSchema = z.object({
+    amount: AmountSchema.optional(),
+});
+
+export type RefundRequest = z.infer<typeof RefundRequestSchema>;
+
+// Largest number of items a batch can submit
+const TRANSACTION_BATCH_MAX_ITEMS = Number(process.env.TRANSACTION_BATCH_MAX_ITEMS) || 500;
+
+/**
+ * TransactionBatchRequestSchema defines the structure of a batch of transaction requests.
+ * The mode is either 'all-or-nothing' (every item is created, or none is) or 'best-effort' (each item on its own).
+ * Each item carries its own idempotency key (a UUID, unique in the batch) and a transaction request.
+ * The transaction requests are validated item by item against the TransactionRequestSchema,
+ * so an invalid item is reported in the results instead of rejecting the whole batch.
+ */
+export const TransactionBatchRequestSchema = z.object({
+    mode: z.enum(['all-or-nothing', 'best-effort']),
+    items: z.array(z.object({
+        idempotencyKey: z.string(),
+        transaction: z.unknown(),
+    })).min(1, "A batch must have at least one item").max(TRANSACTION_BATCH_MAX_ITEMS, `A batch can have at most ${TRANSACTION_BATCH_MAX_ITEMS} items`),
+});
+
+export type TransactionBatchRequest = z.infer<typeof TransactionBatchRequestSchema>;
+
+// Columns the transaction list can be sorted on
+export const TRANSACTION_SORT_COLUMNS = ['createdAt', 'updatedAt', 'amount', 'type', 'status'] as const;
+
+/**
+ * TransactionListQuerySchema defines the query parameters for listing transactions.
+ * Transactions can be filtered by type, status, currency and consumerId, by amount range (minAmount, maxAmount, which need a currency)
+ * and by creation date range (createdFrom, createdTo), both bounds included.
+ * They can only be sorted on whitelisted columns, and are paginated with page and limit (offset pagination),
+ * or with the opaque cursor of a previous page (cursor pagination, only sorted by createdAt).
+ * Cursor pagination starts with pagination=cursor, and is implied by a cursor.
+ */
+export const TransactionListQuerySchema = z.object({
+    type: z.enum(['payment', 'withdrawal', 'disbursement', 'refund']).optional(),
+    status: z.enum(['pending', 'completed', 'failed', 'cancelled']).optional(),
+    currency: CurrencySchema.optional(),
+    consumerId: z.string().uuid("Invalid consumer ID format").optional(),
+    minAmount: AmountSchema.optional(),
+    maxAmount: AmountSchema.optional(),
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    sortBy: z.enum(TRANSACTION_SORT_COLUMNS).default('createdAt'),
+    sortOrder: z.preprocess((sortOrder) => typeof sortOrder === 'string' ? sortOrder.toLowerCase() : sortOrder, z.enum(['asc', 'desc']).default('desc')),
+    pagination: z.enum(['offset', 'cursor']).default('offset'),
+    cursor: z.string().min(1).optional(),
+}).refine((query) => (query.minAmount === undefined && query.maxAmount === undefined) || query.currency !== undefined, {
+    message: "currency is required to filter by amount",
+    path: ['currency'],
+}).refine((query) => query.minAmount === undefined || !query.currency || !isDecimalAmount(query.minAmount) || toMinorUnits(query.minAmount, query.currency) !== null, {
+    message: "Amount has more fraction digits than its currency allows, or is too large",
+    path: ['minAmount'],
+}).refine((query) => query.maxAmount === undefined || !query.currency || !isDecimalAmount(query.maxAmount) || toMinorUnits(query.maxAmount, query.currency) !== null, {
+    message: "Amount has more fraction digits than its currency allows, or is too large",
+    path: ['maxAmount'],
+}).refine((query) => {
+    const minAmount = query.minAmount !== undefined && query.currency && isDecimalAmount(query.minAmount) ? toMinorUnits(query.minAmount, query.currency) : null;
+    const maxAmount = query.maxAmount !== undefined && query.currency && isDecimalAmount(query.maxAmount) ? toMinorUnits(query.maxAmount, query.currency) : null;
+    return minAmount === null || maxAmount === null || minAmount <= maxAmount;
+}, {
+    message: "minAmount must not be greater than maxAmount",
+    path: ['maxAmount'],
+}).refine((query) => !query.createdFrom || !query.createdTo || query.createdFrom <= query.createdTo, {
+    message: "createdFrom must not be after createdTo",
+    path: ['createdTo'],
+}).transform((query) => ({
+    ...query,
+    pagination: query.cursor ? 'cursor' as const : query.pagination,
+})).refine((query) => query.pagination === 'offset' || query.sortBy === 'createdAt', {
+    message: "Cursor pagination can only sort by createdAt",
+    path: ['sortBy'],
 });
 
-export type TransactionRequest = z.infer<typeof TransactionRequestSchema>;
\ No newline at end of file
+export type TransactionListQuery = z.infer<typeof TransactionListQuerySchema>;
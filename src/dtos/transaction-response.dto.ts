@@ -1,15 +1,74 @@
 /**
  * TransactionResponse defines the structure of a transaction response.
- * It includes fields such as id, type, amount, status, consumerId, createdAt, and updatedAt.
- * The type must be one of 'payment', 'withdrawal', or 'disbursement'.
- * The status can be 'pending', 'completed', or 'failed'.
+ * It includes fields such as id, type, amount, currency, status, consumerId, createdAt, and updatedAt.
+ * The amount is an exact decimal string with the number of fraction digits of its currency (e.g. "12000.00" USD, "1500" JPY).
+ * The type must be one of 'payment', 'withdrawal', 'disbursement', or 'refund'.
+ * A refund also has the ID of the payment it refunds (parentTransactionId).
+ * The status can be 'pending', 'completed', 'failed', or 'cancelled'.
  */
 export interface TransactionResponse {
     id: string;
-    type: string; // 'payment', 'withdrawal', or 'disbursement'
-    amount: number;
-    status: string; // 'pending', 'completed', or 'failed'
+    type: string; // 'payment', 'withdrawal', 'disbursement', or 'refund'
+    amount: string;
+    currency: string;
+    status: string; // 'pending', 'completed', 'failed', or 'cancelled'
     consumerId: string;
+    parentTransactionId?: string;
     createdAt: Date;
     updatedAt?: Date;
-}
\ No newline at end of file
+}
+
+/**
+ * TransactionDetailResponse defines the full detail of a transaction, with its refund history (oldest first).
+ */
+export interface TransactionDetailResponse extends TransactionResponse {
+    refunds: TransactionResponse[];
+}
+
+/**
+ * TransactionPage defines a page of transactions, with the total number of transactions matching the filters.
+ */
+export interface TransactionPage {
+    transactions: TransactionResponse[];
+    total: number;
+}
+
+/**
+ * TransactionCursorPage defines a page of transactions read with cursor pagination,
+ * with the cursors of the next and previous pages, or null when there are none.
+ */
+export interface TransactionCursorPage {
+    transactions: TransactionResponse[];
+    nextCursor: string | null;
+    prevCursor: string | null;
+}
+
+/**
+ * TransactionBatchItemResult defines the outcome of an item of a transaction batch, by its position in the batch,
+ * with the status code, message, data and error a single transaction request would have been answered with:
+ * - 'created': the transaction was created (201)
+ * - 'replayed': the idempotency key was already processed, and its stored response is returned (data or error)
+ * - 'conflict': the idempotency key was used for another request, has expired, or is in use
+ * - 'invalid': the item was rejected (e.g. a validation error, or insufficient funds), with the error
+ * - 'failed': the item failed unexpectedly, and can be retried with the same key
+ * - 'skipped': the item was valid, but not created because an all-or-nothing batch was rejected
+ */
+export interface TransactionBatchItemResult {
+    index: number;
+    idempotencyKey: string;
+    status: 'created' | 'replayed' | 'conflict' | 'invalid' | 'failed' | 'skipped';
+    statusCode: number;
+    message: string;
+    data?: unknown;
+    error?: unknown;
+}
+
+/**
+ * TransactionBatchResponse defines the outcome of a transaction batch: its mode, the result of every item
+ * in the order of the batch, and how many items ended with each status.
+ */
+export interface TransactionBatchResponse {
+    mode: 'all-or-nothing' | 'best-effort';
+    results: TransactionBatchItemResult[];
+    summary: Record<TransactionBatchItemResult['status'], number>;
+}
@@ -3,16 +3,24 @@ import readline from "readline";
 
 import app from "./app";
 import DatabaseConfig from "./config/db.config";
+import IdempotencyLock from "./utils/idempotency-lock.util";
+import IdempotencyReconciler from "./jobs/idempotency-reconciler.job";
+import IdempotencyStoreConfig from "./config/idempotency-store.config";
+import IdempotencySweeper from "./jobs/idempotency-sweeper.job";
+import IdempotencyUsageFlusher from "./jobs/idempotency-usage-flusher.job";
 import Logger from "./utils/logger.util";
 import RedisConfig from "./config/redis.config";
+import SettlementStream from "./utils/settlement-stream.util";
 
-// Connect to Redis
-try {
-    RedisConfig.connect();
-    Logger.info("Redis connected successfully");
-} catch (error) {
-    Logger.error(`Error connecting to Redis: ${error}`);
-    process.exit(1); // Exit with error
+// Connect to Redis, unless neither the idempotency store nor the settlement stream uses it
+// If Redis is unavailable, idempotency checks degrade to the database until the circuit breaker sees it recover,
+// and new transactions are published to the settlement stream later by the requeue sweep of the settlement worker
+if (IdempotencyStoreConfig.usesRedis() || SettlementStream.isEnabled()) {
+    RedisConfig.connect()
+        .then(() => Logger.info("Redis connected successfully"))
+        .catch((error) => Logger.warn(`Redis unavailable, idempotency checks will fall back to the database: ${error}`));
+} else {
+    Logger.info(`Redis not used by the "${IdempotencyStoreConfig.getStoreType()}" idempotency store`);
 }
 
 // Connect to the database
@@ -24,6 +32,18 @@ try {
     process.exit(1); // Exit with error
 }
 
+// Start the reconciler that repairs drift between the idempotency_meta table and Redis,
+// and the flusher that moves the usage counters kept in Redis to the idempotency_meta table
+if (IdempotencyStoreConfig.getStoreType() === "tiered") {
+    IdempotencyReconciler.start();
+    IdempotencyUsageFlusher.start();
+}
+
+// Start the sweeper that purges expired idempotency_meta rows
+if (IdempotencyStoreConfig.usesDatabase()) {
+    IdempotencySweeper.start();
+}
+
 // Start the Express server
 const PORT = process.env.PORT || 3000;
 let server;
@@ -62,30 +82,45 @@ if (process.platform === "win32") {
 const shutdown = async () => {
     Logger.info("\nShutting down gracefully...");
 
+    // Exit anyway if the requests in flight do not finish in time
+    setTimeout(() => {
+        Logger.error("Forcing shutdown after timeout");
+        process.exit(1); // Exit with error
+    }, 10000).unref(); // 10 seconds timeout
+
     try {
-        // 1. Close database connection
+        // 1. Stop background jobs
+        await IdempotencyReconciler.stop();
+        await IdempotencySweeper.stop();
+        await IdempotencyUsageFlusher.stop();
+
+        // 2. Close server, once the requests in flight have been answered
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        Logger.info("Server closed");
+
+        // 3. Let the requests in flight record their outcome and release their idempotency reservations
+        // (e.g. a handler that missed its deadline still runs after its response), while the stores are still reachable;
+        // releasing them earlier would let a retry execute a request that is still running
+        const unsettledLeases = await IdempotencyLock.waitForAll(5000); // 5 seconds timeout
+        if (unsettledLeases > 0) {
+            Logger.warn(`Releasing ${unsettledLeases} idempotency reservations of requests that did not settle in time`);
+        }
+        await IdempotencyLock.releaseAll();
+        Logger.info("Idempotency reservations released");
+
+        // 4. Close database connection
         if (await DatabaseConfig.isConnected()) {
             await DatabaseConfig.disconnect();
             Logger.info("Database connection closed");
         }
 
-        // 2. Close Redis connection
-        if (await RedisConfig.ping()) {
+        // 5. Close Redis connection
+        if ((IdempotencyStoreConfig.usesRedis() || SettlementStream.isEnabled()) && await RedisConfig.ping()) {
             await RedisConfig.quit();
         }
         Logger.info("Redis connection closed");
 
-        // 3. Close server
-        server.close(() => {
-            Logger.info("Server closed");
-            process.exit(0); // Exit with success
-        });
-
-        // 4. Handle any remaining requests
-        setTimeout(() => {
-            Logger.error("Forcing shutdown after timeout");
-            process.exit(1); // Exit with error
-        }, 5000); // 5 seconds timeout
+        process.exit(0); // Exit with success
     } catch (err) {
         Logger.error("Error closing server:", err);
         process.exit(1); // Exit with error
@@ -0,0 +1,222 @@
+import "dotenv/config";
+import { Op } from "sequelize";
+
+import AppError from "../exceptions/app-error.exception";
+import LeaderLock from "../utils/leader-lock.util";
+import Logger from "../utils/logger.util";
+import PostgresIdempotencyStore from "../stores/postgres-idempotency.store";
+import RedisIdempotencyStore from "../stores/redis-idempotency.store";
+import RedisUtil from "../utils/redis.util";
+import { IdempotencyOutbox } from "../models/idempotency-outbox.model";
+
+/**
+ * Idempotency reconciler job.
+ * This job repairs drift between the idempotency_meta table and the Redis cache, in both directions:
+ * - database to Redis: outbox entries left unprocessed (e.g. the process crashed between the commit
+ *   and the cache update, or Redis was down) are replayed against Redis
+ * - Redis to database: cached records that no longer match the database (missing, expired or different)
+ *   are deleted or overwritten from the database; each run checks at most IDEMPOTENCY_RECONCILE_MAX_KEYS keys,
+ *   and the next run resumes the scan from the cursor where it stopped, which is kept in Redis
+ * It runs periodically in the background while the tiered idempotency store is in use, on a single leader instance.
+ */
+
+// The scan cursor is dropped (and the scan starts over) if the reconciler does not run for a day
+const SCAN_CURSOR_TTL_SECONDS = 24 * 3600;
+
+class IdempotencyReconciler {
+    private intervalMs: number;
+    private outboxGraceMs: number;
+    private outboxRetentionMs: number;
+    private batchSize: number;
+    private maxKeys: number;
+    private timer: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+    private redisStore: RedisIdempotencyStore;
+    private postgresStore: PostgresIdempotencyStore;
+    private leaderLock: LeaderLock;
+
+    constructor() {
+        this.intervalMs = Number(process.env.IDEMPOTENCY_RECONCILE_INTERVAL_MS) || 60000; // Default interval of 1 minute
+        this.outboxGraceMs = Number(process.env.IDEMPOTENCY_OUTBOX_GRACE_MS) || 30000; // Leave recent entries to their post-commit hook
+        this.outboxRetentionMs = (Number(process.env.IDEMPOTENCY_OUTBOX_RETENTION_HOURS) || 24) * 3600 * 1000;
+        this.batchSize = Number(process.env.IDEMPOTENCY_RECONCILE_BATCH_SIZE) || 100;
+        this.maxKeys = Number(process.env.IDEMPOTENCY_RECONCILE_MAX_KEYS) || 1000; // Leave the rest of the cache to the next run
+        this.redisStore = new RedisIdempotencyStore();
+        this.postgresStore = new PostgresIdempotencyStore();
+        // The leader keeps its lock across runs by renewing it, and loses it if it misses two runs
+        this.leaderLock = new LeaderLock("idempotency-reconciler", Math.ceil((this.intervalMs * 2) / 1000));
+    }
+
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.reconcile().catch((error) => {
+                Logger.error(`Idempotency reconciliation failed: ${error}`);
+            });
+        }, this.intervalMs);
+        this.timer.unref();
+        Logger.info(`Idempotency reconciler started (every ${this.intervalMs}ms)`);
+    }
+
+    public async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            Logger.info("Idempotency reconciler stopped");
+        }
+
+        // Hand over the leadership right away instead of waiting for the lock to expire
+        try {
+            await this.leaderLock.release();
+        } catch (error) {
+            Logger.warn(`Failed to release the idempotency reconciler leader lock: ${error}`);
+        }
+    }
+
+    public async reconcile(): Promise<void> {
+        // Skip this run if the previous one is still in progress
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            if (!(await this.isLeader())) {
+                return;
+            }
+
+            const replayed = await this.replayOutbox();
+            const repaired = await this.repairCache();
+            const removed = await IdempotencyOutbox.destroy({
+                where: { processedAt: { [Op.lt]: new Date(Date.now() - this.outboxRetentionMs) } },
+            });
+
+            if (replayed > 0 || repaired > 0) {
+                Logger.info(`Idempotency reconciliation repaired drift: ${replayed} outbox entries replayed, ${repaired} cache entries repaired`);
+            }
+            if (removed > 0) {
+                Logger.debug(`Idempotency reconciliation removed ${removed} processed outbox entries`);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // Database to Redis: apply the unprocessed outbox entries to Redis
+    private async replayOutbox(): Promise<number> {
+        const entries = await IdempotencyOutbox.findAll({
+            where: {
+                processedAt: null,
+                createdAt: { [Op.lt]: new Date(Date.now() - this.outboxGraceMs) },
+            },
+            order: [['createdAt', 'ASC']],
+            limit: this.batchSize,
+        });
+
+        let replayed = 0;
+        for (const entry of entries) {
+            try {
+                // Apply the current database state rather than the operation itself,
+                // so that replaying an old entry never overwrites a newer change
+                await this.syncKey(entry.key);
+                await entry.update({ processedAt: new Date(), lastError: null });
+                replayed++;
+            } catch (error) {
+                await entry.update({ attempts: entry.attempts + 1, lastError: `${error}` });
+                Logger.warn(`Failed to replay idempotency outbox entry ${entry.id} for key "${entry.key}": ${error}`);
+            }
+        }
+        return replayed;
+    }
+
+    // Redis to database: check the cached records against the database, up to maxKeys of them
+    // The scan resumes from the cursor saved by the previous run, and the cursor is saved after every page,
+    // so the whole cache is covered over successive runs even if one of them fails
+    private async repairCache(): Promise<number> {
+        const cursorKey = this.redisStore.getScanCursorKey("reconciler");
+        let cursor = (await RedisUtil.get<string>(cursorKey)) || '0';
+
+        let scanned = 0;
+        let repaired = 0;
+        do {
+            const page = await RedisUtil.scanPage(cursor, this.redisStore.getRecordKeyPattern(), this.batchSize);
+            for (const redisKey of page.keys) {
+                if (await this.repairKey(redisKey)) {
+                    repaired++;
+                }
+            }
+            scanned += page.keys.length;
+            cursor = page.cursor;
+            await RedisUtil.set(cursorKey, cursor, SCAN_CURSOR_TTL_SECONDS);
+        } while (cursor !== '0' && scanned < this.maxKeys);
+        return repaired;
+    }
+
+    // Check a cached record against the database, and sync it if it does not match, returning whether it was repaired
+    private async repairKey(redisKey: string): Promise<boolean> {
+        const key = this.redisStore.parseRecordKey(redisKey);
+        if (!key) {
+            return false;
+        }
+
+        const [cachedRecord, storedRecord] = await Promise.all([this.redisStore.get(key), this.postgresStore.get(key)]);
+        if (!cachedRecord) {
+            return false; // Expired in the meantime
+        }
+
+        const matches = storedRecord
+            && storedRecord.bodyHash === cachedRecord.bodyHash
+            && (storedRecord.fingerprintFields ?? null) === (cachedRecord.fingerprintFields ?? null)
+            && (storedRecord.statusCode ?? null) === (cachedRecord.statusCode ?? null)
+            && storedRecord.responsePayload === cachedRecord.responsePayload;
+        if (matches) {
+            return false;
+        }
+
+        await this.syncKey(key);
+        return true;
+    }
+
+    // Only the instance holding the leader lock reconciles
+    private async isLeader(): Promise<boolean> {
+        try {
+            const leader = await this.leaderLock.acquire();
+            if (!leader) {
+                Logger.debug("Idempotency reconciliation skipped, another instance is the leader");
+            }
+            return leader;
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 503) {
+                Logger.warn(`Idempotency reconciliation skipped, the leader lock is unavailable: ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // Make the cached record of a key match the database: cache it if it is stored and live, drop it otherwise
+    private async syncKey(key: string): Promise<void> {
+        const storedRecord = await this.postgresStore.get(key);
+        const remainingSeconds = storedRecord?.expiredAt ? Math.floor((new Date(storedRecord.expiredAt).getTime() - Date.now()) / 1000) : 0;
+
+        if (storedRecord && remainingSeconds > 0) {
+            await this.redisStore.complete(key, storedRecord, remainingSeconds);
+            return;
+        }
+
+        // Only drop the cached record, an in-flight reservation of the key must be left alone
+        try {
+            await RedisUtil.del(this.redisStore.getRecordKey(key));
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 503) {
+                throw error;
+            }
+            // RedisUtil.del throws when the key does not exist, which means it is already in sync
+        }
+    }
+}
+
+export default new IdempotencyReconciler();
@@ -0,0 +1,150 @@
+import "dotenv/config";
+import { Op, WhereOptions } from "sequelize";
+
+import AppError from "../exceptions/app-error.exception";
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import LeaderLock from "../utils/leader-lock.util";
+import Logger from "../utils/logger.util";
+import { IdempotencyMeta } from "../models/idempotency-meta.model";
+
+/**
+ * Idempotency sweeper job.
+ * Redis records expire through their TTL, but idempotency_meta rows are kept until this job purges them:
+ * - completed records, once they have been expired for longer than the grace period
+ *   (during which retries still get 419 Expired instead of being executed again)
+ * - reservations left behind by crashed requests, once their lease has expired and they are older than the retention period
+ * Rows are deleted in batches to keep each delete short. When Redis is used, a leader lock ensures
+ * that only one instance sweeps at a time; a run is skipped while Redis is unavailable.
+ */
+class IdempotencySweeper {
+    private intervalMs: number;
+    private graceMs: number;
+    private retentionMs: number;
+    private batchSize: number;
+    private maxBatches: number;
+    private timer: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+    private leaderLock: LeaderLock;
+
+    constructor() {
+        this.intervalMs = Number(process.env.IDEMPOTENCY_SWEEP_INTERVAL_MS) || 300000; // Default interval of 5 minutes
+        this.graceMs = (Number(process.env.IDEMPOTENCY_SWEEP_GRACE_MINUTES) || 60) * 60 * 1000; // Keep answering 419 for 1 hour
+        this.retentionMs = (Number(process.env.IDEMPOTENCY_SWEEP_RETENTION_HOURS) || 24) * 3600 * 1000;
+        this.batchSize = Number(process.env.IDEMPOTENCY_SWEEP_BATCH_SIZE) || 1000;
+        this.maxBatches = Number(process.env.IDEMPOTENCY_SWEEP_MAX_BATCHES) || 10; // Leave the rest to the next run
+        // The leader keeps its lock across runs by renewing it, and loses it if it misses two runs
+        this.leaderLock = new LeaderLock("idempotency-sweeper", Math.ceil((this.intervalMs * 2) / 1000));
+    }
+
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.sweep().catch((error) => {
+                Logger.error(`Idempotency sweep failed: ${error}`);
+            });
+        }, this.intervalMs);
+        this.timer.unref();
+        Logger.info(`Idempotency sweeper started (every ${this.intervalMs}ms)`);
+    }
+
+    public async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            Logger.info("Idempotency sweeper stopped");
+        }
+
+        // Hand over the leadership right away instead of waiting for the lock to expire
+        if (IdempotencyStoreConfig.usesRedis()) {
+            try {
+                await this.leaderLock.release();
+            } catch (error) {
+                Logger.warn(`Failed to release the idempotency sweeper leader lock: ${error}`);
+            }
+        }
+    }
+
+    public async sweep(): Promise<void> {
+        // Skip this run if the previous one is still in progress
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            if (!(await this.isLeader())) {
+                return;
+            }
+
+            const now = Date.now();
+            const expiredRecords = await this.purge({
+                status: 'completed',
+                expiredAt: { [Op.lt]: new Date(now - this.graceMs) },
+            });
+            const staleReservations = await this.purge({
+                status: ['processing', 'unknown'],
+                lockedUntil: { [Op.lt]: new Date(now) },
+                createdAt: { [Op.lt]: new Date(now - this.retentionMs) },
+            });
+
+            if (expiredRecords > 0 || staleReservations > 0) {
+                Logger.info(`Idempotency sweep purged ${expiredRecords} expired records and ${staleReservations} stale reservations`);
+            } else {
+                Logger.debug("Idempotency sweep found nothing to purge");
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // Only the instance holding the leader lock sweeps; without Redis, every instance sweeps
+    private async isLeader(): Promise<boolean> {
+        if (!IdempotencyStoreConfig.usesRedis()) {
+            return true;
+        }
+
+        try {
+            const leader = await this.leaderLock.acquire();
+            if (!leader) {
+                Logger.debug("Idempotency sweep skipped, another instance is the leader");
+            }
+            return leader;
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 503) {
+                Logger.warn(`Idempotency sweep skipped, the leader lock is unavailable: ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    // Delete the rows matching the filter in batches, returning how many were deleted
+    private async purge(where: WhereOptions): Promise<number> {
+        let purged = 0;
+        for (let batch = 0; batch < this.maxBatches; batch++) {
+            const rows = await IdempotencyMeta.findAll({
+                attributes: ['id'],
+                where,
+                order: [['expiredAt', 'ASC']],
+                limit: this.batchSize,
+            });
+            if (rows.length === 0) {
+                break;
+            }
+
+            // Check the filter again, in case a row changed since it was selected (e.g. a reservation was taken over)
+            purged += await IdempotencyMeta.destroy({
+                where: { [Op.and]: [where, { id: rows.map((row) => row.id) }] },
+            });
+            if (rows.length < this.batchSize) {
+                break;
+            }
+        }
+        return purged;
+    }
+}
+
+export default new IdempotencySweeper();
@@ -0,0 +1,73 @@
+import "dotenv/config";
+
+import IdempotencyUsage from "../utils/idempotency-usage.util";
+import Logger from "../utils/logger.util";
+
+/**
+ * Idempotency usage flusher job.
+ * This job moves the usage counters of idempotency keys (replays and conflicts) accumulated in Redis
+ * to the idempotency_meta columns in batches, so that the usage trail is durable without writing to the database
+ * on every replay. Every instance can run it: keys are popped from the pending set and their counters are taken atomically.
+ * It runs periodically in the background while the tiered idempotency store is in use, and once more on shutdown.
+ */
+class IdempotencyUsageFlusher {
+    private intervalMs: number;
+    private batchSize: number;
+    private timer: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+
+    constructor() {
+        this.intervalMs = Number(process.env.IDEMPOTENCY_USAGE_FLUSH_INTERVAL_MS) || 10000; // Default interval of 10 seconds
+        this.batchSize = Number(process.env.IDEMPOTENCY_USAGE_FLUSH_BATCH_SIZE) || 500;
+    }
+
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.flush().catch((error) => {
+                Logger.error(`Idempotency usage flush failed: ${error}`);
+            });
+        }, this.intervalMs);
+        this.timer.unref();
+        Logger.info(`Idempotency usage flusher started (every ${this.intervalMs}ms)`);
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.timer) {
+            return;
+        }
+
+        clearInterval(this.timer);
+        this.timer = null;
+
+        // Flush what is pending, so the counters of this instance are not left waiting for another one
+        try {
+            await this.flush();
+        } catch (error) {
+            Logger.warn(`Final idempotency usage flush failed: ${error}`);
+        }
+        Logger.info("Idempotency usage flusher stopped");
+    }
+
+    public async flush(): Promise<void> {
+        // Skip this run if the previous one is still in progress
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            const flushed = await IdempotencyUsage.flush(this.batchSize);
+            if (flushed > 0) {
+                Logger.debug(`Idempotency usage flushed for ${flushed} keys`);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+}
+
+export default new IdempotencyUsageFlusher();
@@ -0,0 +1,298 @@
+import "dotenv/config";
+import crypto from "crypto";
+import os from "os";
+import { Op, WhereOptions } from "sequelize";
+
+import AppError from "../exceptions/app-error.exception";
+import LeaderLock from "../utils/leader-lock.util";
+import Logger from "../utils/logger.util";
+import SettlementProcessorConfig from "../config/settlement-processor.config";
+import SettlementStream, { SettlementMessage } from "../utils/settlement-stream.util";
+import Transaction from "../models/transaction.model";
+import TransactionService from "../services/transaction.service";
+import { SettlementResult } from "../types/settlement.interface";
+import { TransactionResponse } from "../dtos/transaction-response.dto";
+
+/**
+ * Settlement worker job.
+ * It consumes the transactions published to the settlement stream (see SettlementStream) through its consumer group,
+ * runs each pending one through the configured settlement processor, and moves it to completed or failed.
+ * - a transient error (the processor throwing, or the database failing) is retried with exponential backoff,
+ *   until the settlement is out of attempts and goes to the dead-letter stream
+ * - messages left pending by a crashed worker are claimed again once they have been idle long enough
+ * - a transaction is never settled twice: it is locked while it is processed, skipped unless it is still pending,
+ *   and its status change is checked again under a row lock, so a message delivered twice is only acknowledged
+ * A requeue sweep (run by a single leader instance) publishes again the pending transactions that never reached
+ * the stream, e.g. because Redis was unavailable when they were committed.
+ */
+class SettlementWorker {
+    private consumer: string;
+    private batchSize: number;
+    private blockMs: number;
+    private maxAttempts: number;
+    private retryBaseMs: number;
+    private retryMaxMs: number;
+    private claimIdleMs: number;
+    private claimIntervalMs: number;
+    private lockTtlSeconds: number;
+    private idleBackoffMs: number;
+    private requeueIntervalMs: number;
+    private requeueMaxBatches: number;
+    private running: boolean = false;
+    private loop: Promise<void> | null = null;
+    private groupReady: boolean = false;
+    private lastClaimAt: number = 0;
+    private requeueTimer: NodeJS.Timeout | null = null;
+    private requeueing: boolean = false;
+    private leaderLock: LeaderLock;
+
+    constructor() {
+        this.consumer = `${os.hostname()}-${process.pid}`;
+        this.batchSize = Number(process.env.SETTLEMENT_BATCH_SIZE) || 10;
+        this.blockMs = Number(process.env.SETTLEMENT_BLOCK_MS) || 1000; // Must stay below REDIS_COMMAND_TIMEOUT
+        this.maxAttempts = Number(process.env.SETTLEMENT_MAX_ATTEMPTS) || 5;
+        this.retryBaseMs = Number(process.env.SETTLEMENT_RETRY_BASE_MS) || 1000; // Doubled on every attempt
+        this.retryMaxMs = Number(process.env.SETTLEMENT_RETRY_MAX_MS) || 60000;
+        this.claimIdleMs = Number(process.env.SETTLEMENT_CLAIM_IDLE_MS) || 60000; // Longer than any settlement takes
+        this.claimIntervalMs = Number(process.env.SETTLEMENT_CLAIM_INTERVAL_MS) || 30000;
+        this.lockTtlSeconds = Math.ceil(this.claimIdleMs / 1000);
+        this.idleBackoffMs = Number(process.env.SETTLEMENT_IDLE_BACKOFF_MS) || 1000; // Wait after an error before polling again
+        this.requeueIntervalMs = Number(process.env.SETTLEMENT_REQUEUE_INTERVAL_MS) || 60000;
+        this.requeueMaxBatches = Number(process.env.SETTLEMENT_REQUEUE_MAX_BATCHES) || 10; // Of SETTLEMENT_BATCH_SIZE transactions per run
+        // The leader keeps its lock across runs by renewing it, and loses it if it misses two runs
+        this.leaderLock = new LeaderLock("settlement-requeue", Math.ceil((this.requeueIntervalMs * 2) / 1000));
+    }
+
+    public start(): void {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        this.loop = this.run();
+
+        this.requeueTimer = setInterval(() => {
+            this.requeue().catch((error) => {
+                Logger.error(`Settlement requeue failed: ${error}`);
+            });
+        }, this.requeueIntervalMs);
+        this.requeueTimer.unref();
+        Logger.info(`Settlement worker "${this.consumer}" started with the "${SettlementProcessorConfig.getProcessor().name}" processor`);
+    }
+
+    public async stop(): Promise<void> {
+        if (this.requeueTimer) {
+            clearInterval(this.requeueTimer);
+            this.requeueTimer = null;
+        }
+
+        // Let the message in progress finish, the others stay pending for the next worker
+        if (this.running) {
+            this.running = false;
+            await this.loop;
+            this.loop = null;
+            Logger.info("Settlement worker stopped");
+        }
+
+        // Hand over the leadership right away instead of waiting for the lock to expire
+        try {
+            await this.leaderLock.release();
+        } catch (error) {
+            Logger.warn(`Failed to release the settlement requeue leader lock: ${error}`);
+        }
+    }
+
+    private async run(): Promise<void> {
+        while (this.running) {
+            try {
+                await this.poll();
+            } catch (error) {
+                // The group is created again if the stream was deleted
+                if (String(error).includes('NOGROUP')) {
+                    this.groupReady = false;
+                }
+                Logger.warn(`Settlement poll failed: ${error}`);
+                await new Promise((resolve) => setTimeout(resolve, this.idleBackoffMs));
+            }
+        }
+    }
+
+    private async poll(): Promise<void> {
+        if (!this.groupReady) {
+            await SettlementStream.ensureGroup();
+            this.groupReady = true;
+        }
+
+        await SettlementStream.promoteDueRetries(this.batchSize);
+
+        // Take over the messages of crashed workers from time to time
+        let messages: SettlementMessage[] = [];
+        if (Date.now() - this.lastClaimAt >= this.claimIntervalMs) {
+            this.lastClaimAt = Date.now();
+            messages = await SettlementStream.claimStale(this.consumer, this.claimIdleMs, this.batchSize);
+            if (messages.length > 0) {
+                Logger.warn(`Settlement worker claimed ${messages.length} stale messages`);
+            }
+        }
+        if (messages.length === 0) {
+            messages = await SettlementStream.read(this.consumer, this.batchSize, this.blockMs);
+        }
+
+        for (const message of messages) {
+            if (!this.running) {
+                break;
+            }
+            await this.handle(message);
+        }
+    }
+
+    private async handle(message: SettlementMessage): Promise<void> {
+        if (!message.transactionId) {
+            await SettlementStream.deadLetter(message, "Malformed settlement message");
+            return;
+        }
+
+        // A transaction being settled by another delivery is left pending, and claimed again once that one is done
+        const token = crypto.randomUUID();
+        if (!(await SettlementStream.lock(message.transactionId, token, this.lockTtlSeconds))) {
+            Logger.debug(`Settlement of transaction "${message.transactionId}" is already in progress`);
+            return;
+        }
+
+        try {
+            await this.settle(message);
+        } finally {
+            try {
+                await SettlementStream.unlock(message.transactionId, token);
+            } catch (error) {
+                Logger.warn(`Failed to unlock the settlement of transaction "${message.transactionId}": ${error}`);
+            }
+        }
+    }
+
+    private async settle(message: SettlementMessage): Promise<void> {
+        try {
+            const transaction = await TransactionService.getTransactionById(message.transactionId);
+            if (transaction.status !== 'pending') {
+                Logger.debug(`Transaction "${transaction.id}" is already ${transaction.status}, settlement skipped`);
+                await SettlementStream.ack(message);
+                return;
+            }
+
+            const result = await SettlementProcessorConfig.getProcessor().settle({
+                transactionId: transaction.id,
+                type: transaction.type,
+                amount: transaction.amount,
+                currency: transaction.currency,
+                consumerId: transaction.consumerId,
+                attempt: message.attempt,
+            });
+            await this.applyResult(transaction, result);
+            await SettlementStream.ack(message);
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 404) {
+                Logger.error(`Settlement of unknown transaction "${message.transactionId}" dead-lettered`);
+                await SettlementStream.deadLetter(message, error.message);
+                return;
+            }
+            await this.retryOrDeadLetter(message, error);
+        }
+    }
+
+    // Move the transaction to the status the processor settled it with
+    private async applyResult(transaction: TransactionResponse, result: SettlementResult): Promise<void> {
+        try {
+            await TransactionService.updateTransactionStatus(transaction.id, result.status);
+            Logger.info(`Transaction "${transaction.id}" settled as ${result.status}${result.reason ? `: ${result.reason}` : ''}`);
+        } catch (error) {
+            // It was cancelled or settled meanwhile, which is final
+            if (error instanceof AppError && error.statusCode === 409) {
+                Logger.warn(`Transaction "${transaction.id}" changed while it was being settled: ${error.details}`);
+                return;
+            }
+            throw error;
+        }
+    }
+
+    private async retryOrDeadLetter(message: SettlementMessage, error: unknown): Promise<void> {
+        const reason = error instanceof Error ? error.message : String(error);
+        if (message.attempt >= this.maxAttempts) {
+            Logger.error(`Settlement of transaction "${message.transactionId}" dead-lettered after ${message.attempt} attempts: ${reason}`);
+            await SettlementStream.deadLetter(message, reason);
+            return;
+        }
+
+        const delayMs = Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** (message.attempt - 1));
+        Logger.warn(`Settlement of transaction "${message.transactionId}" failed (attempt ${message.attempt}), retrying in ${delayMs}ms: ${reason}`);
+        await SettlementStream.retry(message, delayMs);
+    }
+
+    // Publish again the pending transactions that are not in the settlement pipeline anymore
+    public async requeue(): Promise<void> {
+        // Skip this run if the previous one is still in progress
+        if (this.requeueing) {
+            return;
+        }
+
+        this.requeueing = true;
+        try {
+            if (!(await this.isLeader())) {
+                return;
+            }
+
+            let requeued = 0;
+            let after: Transaction | null = null;
+            for (let batch = 0; batch < this.requeueMaxBatches; batch++) {
+                const where: WhereOptions = {
+                    status: 'pending',
+                    createdAt: { [Op.lt]: new Date(Date.now() - SettlementStream.getRequeueAfterMs()) },
+                };
+                const transactions: Transaction[] = await Transaction.findAll({
+                    attributes: ['id', 'createdAt'],
+                    where: after
+                        ? { [Op.and]: [where, { [Op.or]: [{ createdAt: { [Op.gt]: after.createdAt } }, { createdAt: after.createdAt, id: { [Op.gt]: after.id } }] }] }
+                        : where,
+                    order: [['createdAt', 'ASC'], ['id', 'ASC']],
+                    limit: this.batchSize,
+                });
+
+                for (const transaction of transactions) {
+                    if (!(await SettlementStream.isQueued(transaction.id))) {
+                        await SettlementStream.publish(transaction.id);
+                        requeued++;
+                    }
+                }
+                if (transactions.length < this.batchSize) {
+                    break;
+                }
+                after = transactions[transactions.length - 1];
+            }
+
+            if (requeued > 0) {
+                Logger.warn(`Settlement requeue published ${requeued} pending transactions again`);
+            } else {
+                Logger.debug("Settlement requeue found nothing to publish");
+            }
+        } finally {
+            this.requeueing = false;
+        }
+    }
+
+    private async isLeader(): Promise<boolean> {
+        try {
+            const leader = await this.leaderLock.acquire();
+            if (!leader) {
+                Logger.debug("Settlement requeue skipped, another instance is the leader");
+            }
+            return leader;
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 503) {
+                Logger.warn(`Settlement requeue skipped, the leader lock is unavailable: ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+    }
+}
+
+export default new SettlementWorker();
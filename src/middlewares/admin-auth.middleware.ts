@@ -0,0 +1,34 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+import AppError from "../exceptions/app-error.exception";
+
+/**
+ * Middleware to authenticate requests to the admin API.
+ * It expects the admin API key from the ADMIN_API_KEY environment variable as a Bearer token
+ * in the Authorization header, and compares it in constant time.
+ * When ADMIN_API_KEY is not set, the admin API is disabled and every request is forbidden.
+ */
+const adminAuth = (req: Request, res: Response, next: NextFunction) => {
+    const adminApiKey = process.env.ADMIN_API_KEY;
+    if (!adminApiKey) {
+        return next(AppError.Forbidden("Admin API disabled", "The admin API is disabled. Set ADMIN_API_KEY to enable it."));
+    }
+
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+        return next(AppError.Unauthorized("Missing admin credentials", "An admin API key is required as a Bearer token in the Authorization header."));
+    }
+
+    // Compare digests, so the comparison takes the same time whatever the length of the token
+    const expectedDigest = crypto.createHash('sha256').update(adminApiKey).digest();
+    const actualDigest = crypto.createHash('sha256').update(token).digest();
+    if (!crypto.timingSafeEqual(expectedDigest, actualDigest)) {
+        return next(AppError.Unauthorized("Invalid admin credentials", "The admin API key is invalid."));
+    }
+
+    next();
+};
+
+export default adminAuth;
@@ -26,7 +26,7 @@ const corsOptions: cors.CorsOptions = {
             if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
                 return callback(AppError.Forbidden("Invalid Origin", "CORS policy: The request's origin is not allowed. Only HTTP and HTTPS protocols are permitted."));
             }
-        } catch(error) {
+        } catch {
             return callback(AppError.Forbidden("Invalid Origin", "CORS policy: The request's origin is not a valid URL."));
         }
 
@@ -8,10 +8,13 @@ import FormatResponse from '../utils/response.util';
  * This middleware catches errors thrown in the application,
  * formats them, and sends a response to the client.
  * It handles both custom AppError instances and unexpected errors.
+ * The error is kept in res.locals.error, so that middlewares observing the response
+ * (e.g. the idempotency outcome policy) can tell what it failed with.
  */
-const errorHandler = (err: any, req: Request, res: Response, next: NextFunction): void => {
+const errorHandler = (err: unknown, req: Request, res: Response, _next: NextFunction): void => {
     // AppError for custom application errors
     if (err instanceof AppError) {
+        res.locals.error = err;
         res.status(err.statusCode).json(
             FormatResponse({
                 message: err.message,
@@ -26,6 +29,7 @@ const errorHandler = (err: any, req: Request, res: Response, next: NextFunction)
 
     // Handle unknown/unexpected errors
     console.error('Unexpected error:', err);
+    res.locals.error = AppError.InternalServerError('Internal Server Error', err);
     res.status(500).json(
         FormatResponse({
             message: 'Internal Server Error',
@@ -1,115 +1,479 @@
 import "dotenv/config";
-import crypto from "crypto";
-import { Request, Response, NextFunction } from "express";
+import ms from "ms";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { validate as isUuid } from "uuid";
 
 import AppError from "../exceptions/app-error.exception";
 import FormatResponse from '../utils/response.util';
-import RedisUtil from "../utils/redis.util";
-import { IdempotencyInterface } from "../types/idempotency.interface";
-import { IdempotencyMeta } from "../models/idempotency-meta.model";
+import IdempotencyLock from "../utils/idempotency-lock.util";
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import IdempotencyUsage from "../utils/idempotency-usage.util";
+import Logger from "../utils/logger.util";
+import errorHandler from "./error.middleware";
+import CaptureResponse, { detachResponse, SettledResponse } from "../utils/response-capture.util";
+import { storeDeterministicOutcomes, storeSuccessOnly } from "../utils/idempotency-outcome.util";
+import { getIdempotencyScope, IdempotencyScopeResolver, resolveAuthenticatedPrincipal, toScopedKey } from "../utils/idempotency-scope.util";
+import { computeRequestFingerprint, getFingerprintFields, RequestFingerprint } from "../utils/request-fingerprint.util";
+import { IdempotencyInterface, IdempotencyKeyFormat, IdempotencyOptions, IdempotencyOutcomePolicy } from "../types/idempotency.interface";
+import { IdempotencyLookupStats, IdempotencyRecord } from "../types/idempotency-store.interface";
 
 /**
- * Idempotency middleware for handling idempotent requests.
- * This middleware checks if a request with the same idempotency key and body hash
- * has already been processed, and returns the cached response if it exists.
- * If not, it allows the request to proceed and stores the response in Redis.
+ * Response headers that are stored with the idempotency record and reproduced on replay.
+ * Other headers (e.g. rate limit or request ID headers) belong to the current request and are not replayed.
  */
-const idempotencyMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // Ensure the request method is idempotent
-    // This middleware is typically used for POST requests, but can be adapted for PUT/PATCH
-    const idempotentMethods = ['POST', 'PUT', 'PATCH'];
-    if (!idempotentMethods.includes(req.method)) {
+const getReplayHeaderNames = (): string[] => {
+    const headerNames = process.env.IDEMPOTENCY_REPLAY_HEADERS || 'location,content-type';
+    return headerNames.split(',').map((name) => name.trim().toLowerCase()).filter((name) => name !== '');
+};
+
+// Headers of a response as they were set, joined into single values
+const getResponseHeaders = (res: Response): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(res.getHeaders())) {
+        if (value !== undefined) {
+            headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+    return headers;
+};
+
+// Idempotency options with every default filled in
+interface ResolvedIdempotencyOptions {
+    ttlSeconds: number;
+    required: boolean;
+    methods: string[];
+    scope: IdempotencyScopeResolver;
+    headerName: string;
+    keyFormat: IdempotencyKeyFormat;
+    outcomePolicy: IdempotencyOutcomePolicy;
+    timeoutMs: number | null;
+}
+
+// Longest key the idempotency_meta.key column can hold
+const MAX_KEY_LENGTH = 255;
+
+// Crockford base32 ULID, e.g. 01ARZ3NDEKTSV4RRFFQ69G5FAV
+const ULID_PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+
+/**
+ * Fill in the defaults of the idempotency options of a route, from the environment where there is one.
+ * Invalid options are configuration errors, so they are thrown when the route is declared.
+ */
+const resolveOptions = (options: IdempotencyOptions): ResolvedIdempotencyOptions => {
+    const defaultTtlSeconds = (process.env.IDEMPOTENCY_TTL_HOURS ? parseInt(process.env.IDEMPOTENCY_TTL_HOURS) : 1) * 3600; // Default TTL of 1 hour
+    const ttlMs = typeof options.ttl === 'string' ? ms(options.ttl) : options.ttl;
+    if (options.ttl !== undefined && !(Number(ttlMs) > 0)) {
+        throw new Error(`Invalid idempotency TTL "${options.ttl}"`);
+    }
+
+    const timeoutMs = typeof options.timeout === 'string' ? ms(options.timeout) : options.timeout ?? (Number(process.env.IDEMPOTENCY_HANDLER_TIMEOUT_MS) || null);
+    if (timeoutMs !== null && !(Number(timeoutMs) > 0)) {
+        throw new Error(`Invalid idempotency handler timeout "${options.timeout}"`);
+    }
+
+    const keyFormat = options.keyFormat || { maxLength: MAX_KEY_LENGTH };
+    if (typeof keyFormat === 'object' && !(keyFormat.maxLength > 0 && keyFormat.maxLength <= MAX_KEY_LENGTH)) {
+        throw new Error(`Idempotency key maxLength must be between 1 and ${MAX_KEY_LENGTH}`);
+    }
+
+    return {
+        ttlSeconds: ttlMs !== undefined ? Math.ceil(ttlMs / 1000) : defaultTtlSeconds,
+        required: options.required ?? true,
+        methods: (options.methods || ['POST', 'PUT', 'PATCH']).map((method) => method.toUpperCase()),
+        scope: options.scope || resolveAuthenticatedPrincipal,
+        headerName: (options.headerName || process.env.IDEMPOTENCY_HEADER_NAME || 'idempotency-key').toLowerCase(),
+        keyFormat,
+        outcomePolicy: options.outcomePolicy || (options.cacheErrors ? storeDeterministicOutcomes : storeSuccessOnly),
+        timeoutMs,
+    };
+};
+
+/**
+ * Check that an idempotency key has the format the route expects.
+ * Returns a description of the expected format if it does not, or null if it does.
+ */
+const checkKeyFormat = (idempotencyKey: string, keyFormat: IdempotencyKeyFormat): string | null => {
+    if (keyFormat === 'uuid') {
+        return isUuid(idempotencyKey) ? null : "Idempotency key must be a UUID";
+    }
+    if (keyFormat === 'ulid') {
+        return ULID_PATTERN.test(idempotencyKey) ? null : "Idempotency key must be a ULID";
+    }
+    return idempotencyKey.length <= keyFormat.maxLength ? null : `Idempotency key must be at most ${keyFormat.maxLength} characters long`;
+};
+
+/**
+ * Count a replay or a rejected conflicting attempt in the usage trail of the key.
+ * The trail is informational, so failing to update it never fails the request.
+ */
+const recordUsage = (scopedKey: string, event: 'replay' | 'conflict'): void => {
+    const update = event === 'replay' ? IdempotencyUsage.recordReplay(scopedKey) : IdempotencyUsage.recordConflict(scopedKey);
+    update.catch((error) => {
+        Logger.warn(`Failed to record idempotency ${event} for key "${scopedKey}": ${error}`);
+    });
+};
+
+/**
+ * Look up an already processed request for the given scoped idempotency key in the configured store.
+ * Returns the stored idempotency record, or null if the key has not been processed yet.
+ * How the lookup was served (e.g. whether the cache was used) is reported through the optional stats.
+ * Throws a Conflict error if the request fingerprint does not match, or an Expired error if the key has expired.
+ */
+const findProcessedRecord = async (req: Request, scopedKey: string, fingerprint: RequestFingerprint, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null> => {
+    const alreadyProcessed = await IdempotencyStoreConfig.getStore().get(scopedKey, stats);
+    if (!alreadyProcessed) {
+        return null;
+    }
+
+    // If it exists, check if the request fingerprint matches the one stored
+    // A record fingerprinted from other fields is compared with a fingerprint of the same fields
+    const storedFields = alreadyProcessed.fingerprintFields || null;
+    const requestFingerprint = storedFields === fingerprint.fields ? fingerprint : computeRequestFingerprint(req, storedFields);
+    if (alreadyProcessed.bodyHash !== requestFingerprint.hash) {
+        // If it exists but does not match, throw an error
+        recordUsage(scopedKey, 'conflict');
+        throw AppError.Conflict("Idempotency key conflict", "A transaction with this idempotency key already exists with a different request body.");
+    }
+
+    // Check if the idempotency key is already expired
+    const currentTime = new Date();
+    if (alreadyProcessed.expiredAt && new Date(alreadyProcessed.expiredAt) < currentTime) {
+        // And throw an error indicating that the idempotency key has expired
+        throw AppError.Expired("Idempotency key expired", "The idempotency key has expired and cannot be used for this transaction.");
+    }
+
+    // If it exists and matches, return the stored record
+    // This means the transaction has already been processed
+    return alreadyProcessed;
+};
+
+/**
+ * Replay the stored response of an already processed request.
+ * The original status code, body and whitelisted headers are reproduced exactly,
+ * and the Idempotent-Replayed header tells the client that nothing was executed again.
+ */
+const replayProcessedRecord = (req: Request, res: Response, record: IdempotencyRecord): void => {
+    res.setHeader('Idempotent-Replayed', 'true');
+
+    // Records stored before the original status code was kept only hold the data part of the response
+    if (!record.statusCode) {
+        res.status(200).json(
+            FormatResponse({
+                message: "Transaction already processed",
+                data: JSON.parse(record.responsePayload),
+                req,
+            })
+        );
+        return;
+    }
+
+    const responseHeaders: Record<string, string> = record.responseHeaders ? JSON.parse(record.responseHeaders) : {};
+    for (const [name, value] of Object.entries(responseHeaders)) {
+        res.setHeader(name, value);
+    }
+
+    res.status(record.statusCode).send(record.responsePayload);
+};
+
+/**
+ * Store the response settled by the route handler for the given scoped idempotency key,
+ * once the outcome policy of the route has decided it is to be replayed,
+ * so that any route becomes idempotent without storing anything itself.
+ * The full response body is kept together with its status code and whitelisted headers,
+ * and the request that produced it (request ID, client IP and user agent) starts the usage trail of the key.
+ */
+const recordProcessedResponse = async (scopedKey: string, fingerprint: RequestFingerprint, req: Request, res: Response, settledResponse: SettledResponse, options: ResolvedIdempotencyOptions): Promise<void> => {
+    if (settledResponse.body === undefined) {
+        return;
+    }
+
+    // Keep only the whitelisted headers that were actually set
+    const responseHeaders: Record<string, string> = {};
+    for (const name of getReplayHeaderNames()) {
+        const value = settledResponse.headers[name];
+        if (value !== undefined) {
+            responseHeaders[name] = value;
+        }
+    }
+
+    // Prepare the idempotency record, kept for the TTL of the route
+    const ttlSeconds = options.ttlSeconds;
+    const idempotencyRecord: IdempotencyRecord = {
+        key: scopedKey,
+        bodyHash: fingerprint.hash,
+        fingerprintFields: fingerprint.fields || undefined,
+        responsePayload: settledResponse.body,
+        statusCode: settledResponse.statusCode,
+        responseHeaders: JSON.stringify(responseHeaders),
+        firstRequestId: res.get("X-Request-Id"),
+        clientIp: req.ip,
+        userAgent: req.headers['user-agent'],
+        createdAt: new Date(),
+        expiredAt: new Date(Date.now() + ttlSeconds * 1000),
+    };
+
+    await IdempotencyStoreConfig.getStore().complete(scopedKey, idempotencyRecord, ttlSeconds);
+};
+
+/**
+ * Wait for a concurrent request holding the same idempotency key to finish.
+ * It polls for the processed record until it appears, the reservation can be taken over
+ * (the first request failed and released it), or the wait times out.
+ * Returns either the processed record or the token of the reservation taken over, or neither on timeout.
+ */
+const waitForInFlightRequest = async (req: Request, scopedKey: string, fingerprint: RequestFingerprint): Promise<{ record?: IdempotencyRecord; leaseToken?: string }> => {
+    const waitTimeoutMs = Number(process.env.IDEMPOTENCY_WAIT_TIMEOUT_MS) || 5000; // Default wait of 5 seconds
+    const pollIntervalMs = Number(process.env.IDEMPOTENCY_WAIT_POLL_MS) || 100; // Default poll interval of 100 milliseconds
+    const deadline = Date.now() + waitTimeoutMs;
+
+    while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+
+        const processedRecord = await findProcessedRecord(req, scopedKey, fingerprint);
+        if (processedRecord) {
+            return { record: processedRecord };
+        }
+
+        const leaseToken = await IdempotencyLock.acquire(scopedKey, fingerprint.hash);
+        if (leaseToken) {
+            return { leaseToken };
+        }
+    }
+
+    return {};
+};
+
+/**
+ * Idempotency middleware factory for handling idempotent requests.
+ * The returned middleware checks if a request with the same idempotency key and request fingerprint
+ * has already been processed, and replays the original response if it exists.
+ * If not, it reserves the key in the idempotency store so that concurrent duplicates are rejected with 409
+ * (or wait for the first request to finish), and allows the request to proceed.
+ * The handler's response is captured and stored once it has finished,
+ * so routes do not need any idempotency logic of their own.
+ * Each route can set its own policy: retention (ttl), whether the key is required, the allowed methods,
+ * how the key is scoped, the header it is read from, its format, which outcomes are replayed (the outcome policy),
+ * and the deadline of the handler, after which the request fails with 504 and retries get 425 until the handler settles
+ * (or, if it never does, until its lease reaches IDEMPOTENCY_LOCK_MAX_LIFETIME_SECONDS).
+ */
+const idempotency = (options: IdempotencyOptions = {}): RequestHandler => {
+    const resolvedOptions = resolveOptions(options);
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        await handleIdempotentRequest(req, res, next, resolvedOptions);
+    };
+};
+
+const handleIdempotentRequest = async (req: Request, res: Response, next: NextFunction, options: ResolvedIdempotencyOptions): Promise<void> => {
+    // Ensure the request method is one the route handles idempotently
+    if (!options.methods.includes(req.method)) {
         throw AppError.MethodNotAllowed("Method not allowed", `The ${req.method} method is not allowed for idempotent operations.`);
     }
 
     // Check if the idempotency key is provided in the headers
-    // This is a required field for idempotent operations
-    const idempotencyKeyHeaderName = process.env.IDEMPOTENCY_HEADER_NAME || 'idempotency-key';
-    const idempotencyKey = req.headers[idempotencyKeyHeaderName] as string;
+    // Without a key, a request to a route where it is optional is processed without idempotency
+    const idempotencyKey = req.headers[options.headerName];
+    if (idempotencyKey === undefined && !options.required) {
+        next();
+        return;
+    }
     if (!idempotencyKey || typeof idempotencyKey !== 'string' || idempotencyKey.trim() === '') {
         throw AppError.BadRequest("Invalid idempotency key", "Idempotency key is required and must be a non-empty string");
     }
 
+    const keyFormatError = checkKeyFormat(idempotencyKey, options.keyFormat);
+    if (keyFormatError) {
+        throw AppError.BadRequest("Invalid idempotency key", keyFormatError);
+    }
+
+    // Scope the key by the principal, the HTTP method and the route template,
+    // so that the same key sent by another client or to another endpoint does not collide
+    const scopedKey = toScopedKey(getIdempotencyScope(req, idempotencyKey, options.scope));
+
     try {
-        // Hash the body of the request to create a unique identifier for the request
-        // This is used to ensure that the same request body does not create multiple transactions
-        // with the same idempotency key
-        const requestBodyHash = crypto.createHash('sha256').update(JSON.stringify(req.body)).digest('hex');
-
-        // Check if the idempotency key already exists in Redis
-        const redisKey = process.env.IDEMPOTENCY_PREFIX ? `${process.env.IDEMPOTENCY_PREFIX}:${idempotencyKey}` : `idempotency:${idempotencyKey}`;
-        const alreadyProcessed = await RedisUtil.get<IdempotencyMeta>(redisKey);
-        if (alreadyProcessed) {
-            // If it exists, check if the request body hash matches the one stored in Redis
-            if (alreadyProcessed.bodyHash !== requestBodyHash) {
-                // If it exists but does not match, throw an error
-                throw AppError.Conflict("Idempotency key conflict", "A transaction with this idempotency key already exists with a different request body.");
+        // Fingerprint the request (its canonical body, and optionally the method, path, query parameters and headers)
+        // This is used to ensure that the same idempotency key is not reused for a different request,
+        // while semantically identical bodies (e.g. with a different key order) still match
+        const fingerprint = computeRequestFingerprint(req, getFingerprintFields());
+
+        // Check if the idempotency key has already been processed
+        // When the cache is unavailable, the lookup falls through to the database
+        const lookupStats: IdempotencyLookupStats = { cacheUsed: false };
+        let processedRecord = await findProcessedRecord(req, scopedKey, fingerprint, lookupStats);
+        if (!lookupStats.cacheUsed && IdempotencyStoreConfig.usesRedis()) {
+            Logger.warn(`Idempotency check for key "${idempotencyKey}" bypassed the cache`, {
+                requestId: res.get("X-Request-Id"),
+                servedBy: lookupStats.servedBy,
+            });
+        }
+
+        // If it has not been processed, reserve the key before the handler runs
+        // so that concurrent requests with the same key are not processed twice
+        let leaseToken: string | null = null;
+        if (!processedRecord) {
+            leaseToken = await IdempotencyLock.acquire(scopedKey, fingerprint.hash);
+
+            // Optionally wait for the request holding the reservation to finish
+            // and replay its response, instead of rejecting the duplicate right away
+            const waitForInFlight = (process.env.IDEMPOTENCY_WAIT_FOR_INFLIGHT || '').toUpperCase() === 'TRUE';
+            if (!leaseToken && waitForInFlight) {
+                const waitResult = await waitForInFlightRequest(req, scopedKey, fingerprint);
+                processedRecord = waitResult.record || null;
+                leaseToken = waitResult.leaseToken || null;
             }
 
-            // Check if the idempotency key is already expired
-            const currentTime = new Date();
-            if (alreadyProcessed.expiredAt && new Date(alreadyProcessed.expiredAt) < currentTime) {
-                // And throw an error indicating that the idempotency key has expired
-                throw AppError.Expired("Idempotency key expired", "The idempotency key has expired and cannot be used for this transaction.");
+            if (!processedRecord && !leaseToken) {
+                const retryAfterSeconds = Number(process.env.IDEMPOTENCY_RETRY_AFTER_SECONDS) || 1; // Default retry after 1 second
+                res.setHeader('Retry-After', retryAfterSeconds.toString());
+                recordUsage(scopedKey, 'conflict');
+
+                // A request that missed its deadline may still succeed, so its outcome is not known yet
+                if (await IdempotencyStoreConfig.getStore().isOutcomeUnknown(scopedKey)) {
+                    throw AppError.TooEarly("Idempotency key outcome unknown", "A request with this idempotency key timed out and may still complete. Please retry later.");
+                }
+                throw AppError.Conflict("Idempotency key in use", "A request with this idempotency key is already being processed. Please retry later.");
             }
-            
-            // If it exists and matches, return the unmarshalled response payload
-            // This means the transaction has already been processed
-            res.status(200).json(
-                FormatResponse({
-                    message: "Transaction already processed",
-                    data: JSON.parse(alreadyProcessed.responsePayload),
-                    req,
-                })
-            );
+        }
 
-            return;
-        } else {
-            // Check if the idempotency key exists in the database
-            const idempotencyMeta = await IdempotencyMeta.findOne({
-                where: { key: idempotencyKey, bodyHash: requestBodyHash },
+        if (processedRecord) {
+            // If it exists and matches, replay the original response
+            Logger.info(`Replaying idempotent response for key "${idempotencyKey}"`, {
+                requestId: res.get("X-Request-Id"),
+                clientIp: req.ip,
+                firstRequestId: processedRecord.firstRequestId,
+                firstClientIp: processedRecord.clientIp,
+                firstUserAgent: processedRecord.userAgent,
+                recordedAt: processedRecord.createdAt,
             });
+            recordUsage(scopedKey, 'replay');
+            replayProcessedRecord(req, res, processedRecord);
+            return;
+        }
 
-            // If it exists in the database, check if the request body hash matches
-            if (idempotencyMeta) {
-                // If it exists but does not match, throw an error
-                if (idempotencyMeta.bodyHash !== requestBodyHash) {
-                    throw AppError.Conflict("Idempotency key conflict", "A transaction with this idempotency key already exists with a different request body.");
-                }
+        // Capture whatever the route handler responds with, then record the outcome
+        // and release the reservation once the response has been sent, whether it succeeded or failed
+        // If the client disconnects before the handler finishes, the lease is kept until the handler settles
+        // so that the handler still running cannot be duplicated by a retry
+        const token = leaseToken as string;
+        const capturedResponse = CaptureResponse(res);
+        let deadlineTimer: NodeJS.Timeout | null = null;
+        let timedOut = false;
+        let settled = false;
+
+        const settle = async (settledResponse: SettledResponse): Promise<void> => {
+            if (settled) {
+                return;
+            }
+            settled = true;
 
-                // Check if the idempotency key is already expired
-                const currentTime = new Date();
-                if (idempotencyMeta.expiredAt && new Date(idempotencyMeta.expiredAt) < currentTime) {
-                    // Throw an error indicating that the idempotency key has expired
-                    throw AppError.Expired("Idempotency key expired", "The idempotency key has expired and cannot be used for this transaction.");
+            try {
+                // Let the outcome policy of the route decide whether this outcome is replayed,
+                // or whether the key is only released so that a retry executes again
+                const outcomeAction = options.outcomePolicy({ statusCode: settledResponse.statusCode, error: res.locals.error });
+                if (outcomeAction === 'store') {
+                    await recordProcessedResponse(scopedKey, fingerprint, req, res, settledResponse, options);
                 }
+            } catch (error) {
+                // The request has been processed, but a retry would not find its outcome
+                // Releasing the key would let that retry execute it again, so the lease is left to expire instead
+                Logger.error(`Failed to record idempotent response for key "${idempotencyKey}": ${error}`);
+                IdempotencyLock.abandon(scopedKey, token);
+                return;
+            }
 
-                // If it exists and matches, return the unmarshalled response payload
-                res.status(200).json(
-                    FormatResponse({
-                        message: "Transaction already processed",
-                        data: JSON.parse(idempotencyMeta.responsePayload),
-                        req,
-                    })
-                );
+            try {
+                await IdempotencyLock.release(scopedKey, token);
+            } catch (error) {
+                Logger.error(`Failed to release idempotency lease for key "${idempotencyKey}": ${error}`);
+            }
+        };
+
+        res.once('finish', async () => {
+            if (deadlineTimer) {
+                clearTimeout(deadlineTimer);
+            }
 
+            // After a timeout, the outcome is the one the handler settles later, not the 504 that was sent
+            if (timedOut) {
                 return;
             }
+
+            await settle({ statusCode: res.statusCode, body: capturedResponse.body, headers: getResponseHeaders(res) });
+        });
+
+        // If the client disconnects before the response has finished, 'finish' never fires
+        // A handler that already responded is settled right away, and one still running is detached
+        // and settled once it responds, so the lease is held exactly as long as the handler runs
+        res.once('close', () => {
+            if (res.writableFinished || timedOut) {
+                return;
+            }
+            if (deadlineTimer) {
+                clearTimeout(deadlineTimer);
+            }
+
+            Logger.warn(`Client disconnected before the response for idempotency key "${idempotencyKey}" was sent`, {
+                requestId: res.get("X-Request-Id"),
+            });
+            const headers = getResponseHeaders(res);
+            if (res.headersSent) {
+                settle({ statusCode: res.statusCode, body: capturedResponse.body, headers }).catch((error) => {
+                    Logger.error(`Failed to settle idempotency key "${idempotencyKey}": ${error}`);
+                });
+                return;
+            }
+            detachResponse(res, (lateResponse) => {
+                settle({ ...lateResponse, headers: { ...headers, ...lateResponse.headers } }).catch((error) => {
+                    Logger.error(`Failed to settle idempotency key "${idempotencyKey}": ${error}`);
+                });
+            }, capturedResponse.statusCode);
+        });
+
+        // Fail the request with 504 if the handler misses its deadline, and flag the key's outcome as unknown,
+        // so that retries get 425 instead of executing again while the handler may still complete
+        // The handler's late response is not sent, but it is recorded (or the key released) once it settles
+        if (options.timeoutMs) {
+            const timeoutMs = options.timeoutMs;
+            deadlineTimer = setTimeout(() => {
+                if (res.headersSent) {
+                    return;
+                }
+                timedOut = true;
+                Logger.warn(`Handler for idempotency key "${idempotencyKey}" missed its deadline of ${timeoutMs}ms`, {
+                    requestId: res.get("X-Request-Id"),
+                });
+
+                errorHandler(AppError.GatewayTimeout("Request timed out", "The request did not complete in time. Its outcome is not known yet; retry later with the same idempotency key."), req, res, next);
+                res.locals.error = undefined;
+                detachResponse(res, (lateResponse) => {
+                    Logger.warn(`Handler for idempotency key "${idempotencyKey}" settled with ${lateResponse.statusCode} after its deadline`, {
+                        requestId: res.get("X-Request-Id"),
+                    });
+                    settle(lateResponse).catch((error) => {
+                        Logger.error(`Failed to settle idempotency key "${idempotencyKey}": ${error}`);
+                    });
+                });
+
+                IdempotencyStoreConfig.getStore().markOutcomeUnknown(scopedKey, token, options.ttlSeconds).catch((error) => {
+                    Logger.error(`Failed to flag the outcome of idempotency key "${idempotencyKey}" as unknown: ${error}`);
+                });
+            }, timeoutMs);
         }
 
-        // If it does not exist, create a new entry in Redis
+        // Attach the idempotency context to the request object
         const idempotencyContext: IdempotencyInterface = {
             key: idempotencyKey,
-            bodyHash: requestBodyHash,
+            scopedKey,
+            bodyHash: fingerprint.hash,
+            fingerprintFields: fingerprint.fields || undefined,
+            cacheUsed: lookupStats.cacheUsed,
         };
-
-        // Attach the idempotency context to the request object
         req.idempotency = idempotencyContext;
     } catch (error) {
         if (error instanceof AppError) {
             throw error; // Re-throw known AppErrors
         }
-        
+
         throw AppError.InternalServerError("Error checking idempotency key", error);
     }
 
@@ -117,4 +481,4 @@ const idempotencyMiddleware = async (req: Request, res: Response, next: NextFunc
     next();
 };
 
-export default idempotencyMiddleware;
\ No newline at end of file
+export default idempotency;
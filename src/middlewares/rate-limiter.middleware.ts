@@ -1,5 +1,5 @@
-import { Request, Response } from 'express';
-import rateLimit from "express-rate-limit";
+import { NextFunction, Request, Response } from 'express';
+import rateLimit, { Options } from "express-rate-limit";
 
 import AppError from "../exceptions/app-error.exception";
 import FormatResponse from '../utils/response.util';
@@ -12,7 +12,7 @@ import FormatResponse from '../utils/response.util';
  */
 
 // Handler when rate limit is exceeded
-const rateLimitHandler = (req: Request, res: Response, next: Function, options: any) => {
+const rateLimitHandler = (req: Request, res: Response, next: NextFunction, options: Options) => {
     const error = AppError.TooManyRequests(options.message?.message || "Too many requests", {
         timeWindowInSeconds: options.windowMs / 1000,
         limit: options.max,
@@ -0,0 +1,70 @@
+import { Optional } from 'sequelize';
+import {
+    Column,
+    CreatedAt,
+    DataType,
+    Default,
+    Model,
+    PrimaryKey,
+    Table,
+    UpdatedAt,
+} from 'sequelize-typescript';
+
+/**
+ * Consumer model for the accounts transactions are made for.
+ * This model represents a consumer with the balance of its account, in integer minor units of the currency of the account.
+ * Transactions of a consumer are in the currency of its account.
+ * The balance is changed by its transactions, under a lock of the consumer row:
+ * withdrawals, disbursements and refunds are debited when they are created (and given back if they fail or are cancelled),
+ * and payments are credited once they are completed. The balance never goes below zero,
+ * and always equals the sum of the ledger entries of the account.
+ */
+
+// Define the base attribute type
+interface ConsumerAttributes {
+    id: string;
+    balance: string;
+    currency: string;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+// Define which fields are optional when creating
+type ConsumerCreationAttributes = Optional<ConsumerAttributes, "id" | "balance" | "createdAt" | "updatedAt">;
+
+@Table({
+    tableName: 'consumers',
+    timestamps: true,
+})
+class Consumer extends Model<ConsumerAttributes, ConsumerCreationAttributes> {
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column({
+        type: DataType.UUID,
+        defaultValue: DataType.UUIDV4,
+    })
+    id!: string;
+
+    @Column({
+        type: DataType.BIGINT,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    balance!: string;
+
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false,
+    })
+    currency!: string;
+
+    @CreatedAt
+    @Column
+    createdAt!: Date;
+
+    @UpdatedAt
+    @Column
+    updatedAt?: Date;
+}
+
+export default Consumer;
@@ -13,26 +13,59 @@ import {
 /**
  * IdempotencyMeta model for storing idempotency metadata.
  * This model is used to track idempotent requests and their responses.
- * It includes fields for the idempotency key, body hash, response payload,
- * and timestamps for creation and updates.
+ * It includes fields for the idempotency key and its scope (principal, HTTP method and route template), the request fingerprint (body hash) with the fields it was computed from, the original response
+ * (status code, body and replayable headers), and timestamps for creation and updates.
+ * While a request is being processed, the row holds a "processing" reservation
+ * with the lease token and its expiry instead of a response, which becomes an "unknown" reservation
+ * if the request missed its handler deadline and its outcome is not known yet.
+ * A key is unique within its scope only, which the composite unique index enforces.
+ * The usage trail records the first request (its request ID, client IP and user agent),
+ * how many times the response was replayed and when it last was, and how many conflicting attempts were rejected.
  */
 
 // Define the base attribute type
 interface IdempotencyMetaAttributes {
+    id: string;
+    principal: string;
+    method: string;
+    route: string;
     key: string;
     bodyHash: string;
-    responsePayload: string;
+    fingerprintFields?: string | null;
+    status: "processing" | "unknown" | "completed";
+    responsePayload?: string;
+    statusCode?: number;
+    responseHeaders?: string;
+    lockToken?: string | null;
+    lockedUntil?: Date | null;
+    firstRequestId?: string | null;
+    clientIp?: string | null;
+    userAgent?: string | null;
+    replayCount: number;
+    lastReplayedAt?: Date | null;
+    conflictCount: number;
     createdAt: Date;
     updatedAt?: Date;
     expiredAt?: Date;
 }
 
 // Define which fields are optional when creating
-type IdempotencyMetaCreationAttributes = Optional<IdempotencyMetaAttributes, "createdAt" | "updatedAt">;
+type IdempotencyMetaCreationAttributes = Optional<IdempotencyMetaAttributes, "id" | "status" | "replayCount" | "conflictCount" | "createdAt" | "updatedAt">;
 
 @Table({
     tableName: 'idempotency_meta',
     timestamps: true,
+    indexes: [
+        {
+            name: 'idempotency_meta_scope_key_unique',
+            unique: true,
+            fields: ['principal', 'method', 'route', 'key'],
+        },
+        {
+            name: 'idempotency_meta_expired_at_idx',
+            fields: ['expiredAt'],
+        },
+    ],
 })
 class IdempotencyMeta extends Model<IdempotencyMetaAttributes, IdempotencyMetaCreationAttributes> {
     @PrimaryKey
@@ -41,6 +74,31 @@ class IdempotencyMeta extends Model<IdempotencyMetaAttributes, IdempotencyMetaCr
         type: DataType.UUID,
         defaultValue: DataType.UUIDV4,
     })
+    id!: string;
+
+    @Column({
+        type: DataType.STRING(255),
+        allowNull: false,
+        defaultValue: '',
+    })
+    principal!: string;
+
+    @Column({
+        type: DataType.STRING(10),
+        allowNull: false,
+    })
+    method!: string;
+
+    @Column({
+        type: DataType.STRING(255),
+        allowNull: false,
+    })
+    route!: string;
+
+    @Column({
+        type: DataType.STRING(255),
+        allowNull: false,
+    })
     key!: string;
 
     @Column({
@@ -51,9 +109,87 @@ class IdempotencyMeta extends Model<IdempotencyMetaAttributes, IdempotencyMetaCr
 
     @Column({
         type: DataType.TEXT,
+        allowNull: true,
+    })
+    fingerprintFields?: string | null;
+
+    @Column({
+        type: DataType.STRING(20),
+        allowNull: false,
+        defaultValue: 'completed',
+        validate: {
+            isIn: [['processing', 'unknown', 'completed']],
+        },
+    })
+    status!: string;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    responsePayload?: string;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: true,
+    })
+    statusCode?: number;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    responseHeaders?: string;
+
+    @Column({
+        type: DataType.STRING(64),
+        allowNull: true,
+    })
+    lockToken?: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    lockedUntil?: Date | null;
+
+    @Column({
+        type: DataType.STRING(255),
+        allowNull: true,
+    })
+    firstRequestId?: string | null;
+
+    @Column({
+        type: DataType.STRING(64),
+        allowNull: true,
+    })
+    clientIp?: string | null;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    userAgent?: string | null;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    replayCount!: number;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    lastReplayedAt?: Date | null;
+
+    @Column({
+        type: DataType.INTEGER,
         allowNull: false,
+        defaultValue: 0,
     })
-    responsePayload!: string;
+    conflictCount!: number;
 
     @CreatedAt
     @Column
@@ -0,0 +1,95 @@
+import { Optional } from 'sequelize';
+import {
+    Column,
+    CreatedAt,
+    DataType,
+    Default,
+    Model,
+    PrimaryKey,
+    Table,
+    UpdatedAt,
+} from 'sequelize-typescript';
+
+/**
+ * IdempotencyOutbox model for tracking changes to idempotency_meta that must reach the cache.
+ * An entry is written in the same database transaction as the idempotency_meta change,
+ * and marked as processed once the cache has been updated after the commit.
+ * Entries left unprocessed (e.g. after a crash) are picked up by the idempotency reconciler.
+ */
+
+// Define the base attribute type
+interface IdempotencyOutboxAttributes {
+    id: string;
+    key: string;
+    operation: "upsert" | "delete";
+    attempts: number;
+    lastError?: string | null;
+    processedAt?: Date | null;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+// Define which fields are optional when creating
+type IdempotencyOutboxCreationAttributes = Optional<IdempotencyOutboxAttributes, "id" | "attempts" | "createdAt" | "updatedAt">;
+
+@Table({
+    tableName: 'idempotency_outbox',
+    timestamps: true,
+})
+class IdempotencyOutbox extends Model<IdempotencyOutboxAttributes, IdempotencyOutboxCreationAttributes> {
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column({
+        type: DataType.UUID,
+        defaultValue: DataType.UUIDV4,
+    })
+    id!: string;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: false,
+    })
+    key!: string; // Scoped idempotency key
+
+    @Column({
+        type: DataType.STRING(20),
+        allowNull: false,
+        validate: {
+            isIn: [['upsert', 'delete']],
+        },
+    })
+    operation!: string;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    attempts!: number;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    lastError?: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    processedAt?: Date | null;
+
+    @CreatedAt
+    @Column
+    createdAt!: Date;
+
+    @UpdatedAt
+    @Column
+    updatedAt?: Date;
+}
+
+export {
+    IdempotencyOutbox,
+    IdempotencyOutboxAttributes,
+    IdempotencyOutboxCreationAttributes,
+};
@@ -0,0 +1,91 @@
+import { Optional } from 'sequelize';
+import {
+    AutoIncrement,
+    Column,
+    CreatedAt,
+    DataType,
+    ForeignKey,
+    Model,
+    PrimaryKey,
+    Table,
+} from 'sequelize-typescript';
+
+import Transaction from './transaction.model';
+
+/**
+ * LedgerEntry model for the double-entry ledger behind transactions.
+ * Every movement of money posts two entries of opposite amounts for its transaction: one on the account
+ * of the consumer (its ID), and one on the clearing account of the system (system:clearing).
+ * Amounts are integer minor units of the currency of the transaction.
+ * A positive amount credits the account and a negative amount debits it, so the entries of a transaction sum to zero,
+ * and the entries of a consumer account sum to its balance.
+ * Entries are never changed once posted; a reversal posts new entries. Their ID gives the posting order.
+ */
+
+// Define the base attribute type
+interface LedgerEntryAttributes {
+    id: string;
+    transactionId: string;
+    account: string;
+    amount: string;
+    currency: string;
+    createdAt: Date;
+}
+
+// Define which fields are optional when creating
+type LedgerEntryCreationAttributes = Optional<LedgerEntryAttributes, "id" | "createdAt">;
+
+@Table({
+    tableName: 'ledger_entries',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+        {
+            name: 'ledger_entries_account_id_idx',
+            fields: ['account', 'id'],
+        },
+        {
+            name: 'ledger_entries_transaction_id_idx',
+            fields: ['transactionId'],
+        },
+    ],
+})
+class LedgerEntry extends Model<LedgerEntryAttributes, LedgerEntryCreationAttributes> {
+    @PrimaryKey
+    @AutoIncrement
+    @Column({
+        type: DataType.BIGINT,
+    })
+    id!: string;
+
+    @ForeignKey(() => Transaction)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    transactionId!: string;
+
+    @Column({
+        type: DataType.STRING(64),
+        allowNull: false,
+    })
+    account!: string;
+
+    @Column({
+        type: DataType.BIGINT,
+        allowNull: false,
+    })
+    amount!: string;
+
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false,
+    })
+    currency!: string;
+
+    @CreatedAt
+    @Column
+    createdAt!: Date;
+}
+
+export default LedgerEntry;
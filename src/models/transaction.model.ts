@@ -4,25 +4,35 @@ import {
     CreatedAt,
     DataType,
     Default,
+    ForeignKey,
     Model,
     PrimaryKey,
     Table,
     UpdatedAt,
 } from 'sequelize-typescript';
 
+import Consumer from './consumer.model';
+
 /**
  * Transaction model for handling financial transactions.
- * This model represents a transaction with fields for type, amount, status, and consumer ID.
+ * This model represents a transaction with fields for type, amount, currency, status, and consumer ID.
+ * The amount is stored in integer minor units of its ISO 4217 currency (see amount.util), returned as a string.
  * It includes timestamps for creation and updates.
+ * A transaction is created as 'pending', and is then settled as 'completed' or 'failed', or 'cancelled';
+ * those three statuses are terminal.
+ * A refund is a transaction of type 'refund' referencing the payment it refunds through parentTransactionId.
+ * Every transaction belongs to an existing consumer, whose balance it changes.
  */
 
 // Define the base attribute type
 interface TransactionAttributes {
     id: string;
-    type: "payment" | "withdrawal" | "disbursement";
-    amount: number;
-    status: "pending" | "completed" | "failed";
+    type: "payment" | "withdrawal" | "disbursement" | "refund";
+    amount: string;
+    currency: string;
+    status: "pending" | "completed" | "failed" | "cancelled";
     consumerId: string;
+    parentTransactionId?: string | null;
     createdAt: Date;
     updatedAt?: Date;
 }
@@ -33,6 +43,16 @@ type TransactionCreationAttributes = Optional<TransactionAttributes, "id" | "cre
 @Table({
     tableName: 'transactions',
     timestamps: false,
+    indexes: [
+        {
+            name: 'transactions_created_at_id_idx',
+            fields: ['createdAt', 'id'],
+        },
+        {
+            name: 'transactions_parent_transaction_id_idx',
+            fields: ['parentTransactionId'],
+        },
+    ],
 })
 class Transaction extends Model<TransactionAttributes, TransactionCreationAttributes> {
     @PrimaryKey
@@ -47,32 +67,46 @@ class Transaction extends Model<TransactionAttributes, TransactionCreationAttrib
         type: DataType.STRING(20),
         allowNull: false,
         validate: {
-            isIn: [['payment', 'withdrawal', 'disbursement']],
+            isIn: [['payment', 'withdrawal', 'disbursement', 'refund']],
         },
     })
     type!: string;
 
     @Column({
-        type: DataType.DECIMAL(10, 2),
+        type: DataType.BIGINT,
         allowNull: false,
     })
-    amount!: number;
+    amount!: string;
+
+    @Column({
+        type: DataType.CHAR(3),
+        allowNull: false,
+    })
+    currency!: string;
 
     @Column({
         type: DataType.STRING(20),
         allowNull: false,
         validate: {
-            isIn: [['pending', 'completed', 'failed']],
+            isIn: [['pending', 'completed', 'failed', 'cancelled']],
         },
     })
     status!: string;
 
+    @ForeignKey(() => Consumer)
     @Column({
         type: DataType.UUID,
         allowNull: false,
     })
     consumerId!: string;
 
+    @ForeignKey(() => Transaction)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    parentTransactionId?: string | null;
+
     @CreatedAt
     @Column
     createdAt!: Date;
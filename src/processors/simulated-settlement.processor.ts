@@ -0,0 +1,50 @@
+import "dotenv/config";
+
+import { SettlementProcessor, SettlementRequest, SettlementResult } from "../types/settlement.interface";
+
+// Number of outcomes remembered, the oldest ones are forgotten first
+const MAX_REMEMBERED_OUTCOMES = 10000;
+
+/**
+ * Simulated settlement processor, standing in for a payment provider in development.
+ * It answers after a short delay, and settles a transaction as failed or throws a transient error
+ * at the configured rates, so that declined settlements, retries and dead-lettering can be exercised.
+ * The outcome of a recent transaction is remembered, so settling it again returns the same result, like an idempotent provider.
+ */
+class SimulatedSettlementProcessor implements SettlementProcessor {
+    public readonly name = "simulated";
+    private delayMs: number;
+    private failureRate: number;
+    private errorRate: number;
+    private outcomes: Map<string, SettlementResult> = new Map();
+
+    constructor() {
+        this.delayMs = Number(process.env.SETTLEMENT_SIMULATED_DELAY_MS) || 200;
+        this.failureRate = Number(process.env.SETTLEMENT_SIMULATED_FAILURE_RATE) || 0; // Share of settlements declined
+        this.errorRate = Number(process.env.SETTLEMENT_SIMULATED_ERROR_RATE) || 0; // Share of attempts failing transiently
+    }
+
+    public async settle(request: SettlementRequest): Promise<SettlementResult> {
+        await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+
+        const knownOutcome = this.outcomes.get(request.transactionId);
+        if (knownOutcome) {
+            return knownOutcome;
+        }
+
+        if (Math.random() < this.errorRate) {
+            throw new Error("Simulated settlement provider timeout");
+        }
+
+        const outcome: SettlementResult = Math.random() < this.failureRate
+            ? { status: 'failed', reason: "Declined by the simulated settlement provider" }
+            : { status: 'completed' };
+        this.outcomes.set(request.transactionId, outcome);
+        if (this.outcomes.size > MAX_REMEMBERED_OUTCOMES) {
+            this.outcomes.delete(this.outcomes.keys().next().value as string);
+        }
+        return outcome;
+    }
+}
+
+export default SimulatedSettlementProcessor;
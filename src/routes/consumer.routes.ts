@@ -0,0 +1,22 @@
+import Router from 'express';
+
+import ConsumerController from '../controllers/consumer.controller';
+import CatchAsync from '../utils/catch-async.util';
+import Idempotency from '../middlewares/idempotency.middleware';
+import Validate from '../middlewares/validator.middleware';
+import { ConsumerRequestSchema } from '../dtos/consumer-request.dto';
+
+/**
+ * Consumer routes for handling consumer-related endpoints.
+ * This module defines the routes for opening consumer accounts, and reading their balance and their ledger.
+ * Opening an account is idempotent, like every route that changes data.
+ * It uses the ConsumerController to handle the business logic.
+ */
+
+const router = Router();
+
+router.post('', Idempotency({ keyFormat: 'uuid', cacheErrors: true }), Validate(ConsumerRequestSchema), CatchAsync(ConsumerController.createConsumer));
+router.get('/:id/balance', CatchAsync(ConsumerController.getBalance));
+router.get('/:id/ledger', CatchAsync(ConsumerController.getLedger));
+
+export default router;
@@ -0,0 +1,24 @@
+import Router from 'express';
+
+import AdminAuth from '../middlewares/admin-auth.middleware';
+import CatchAsync from '../utils/catch-async.util';
+import IdempotencyAdminController from '../controllers/idempotency-admin.controller';
+
+/**
+ * Idempotency admin routes for inspecting and managing idempotency state.
+ * This module defines the routes for looking up, listing, force-expiring and deleting keys,
+ * and for listing in-flight reservations. Every route requires the admin API key.
+ * It uses the IdempotencyAdminController to handle the business logic.
+ */
+
+const router = Router();
+
+router.use(AdminAuth);
+
+router.get('/keys', CatchAsync(IdempotencyAdminController.listKeys));
+router.get('/keys/:key', CatchAsync(IdempotencyAdminController.lookupKey));
+router.post('/keys/:key/expire', CatchAsync(IdempotencyAdminController.expireKey));
+router.delete('/keys/:key', CatchAsync(IdempotencyAdminController.deleteKey));
+router.get('/reservations', CatchAsync(IdempotencyAdminController.listReservations));
+
+export default router;
@@ -2,19 +2,27 @@ import Router from 'express';
 
 import TransactionController from '../controllers/transaction.controller';
 import CatchAsync from '../utils/catch-async.util';
-import IdempotencyMiddleware from '../middlewares/idempotency.middleware';
+import Idempotency from '../middlewares/idempotency.middleware';
 import Validate from '../middlewares/validator.middleware';
-import { TransactionRequestSchema } from '../dtos/transaction-request.dto';
+import { resolveBatchConsumerPrincipal, resolveConsumerPrincipal } from '../utils/idempotency-scope.util';
+import { RefundRequestSchema, TransactionBatchRequestSchema, TransactionRequestSchema, TransactionStatusUpdateSchema } from '../dtos/transaction-request.dto';
 
 /**
  * Transaction routes for handling transaction-related endpoints.
- * This module defines the routes for creating and retrieving transactions.
+ * This module defines the routes for creating and retrieving transactions (one by one or in batches), for changing their status, and for refunding payments.
+ * Every route that changes a transaction is idempotent; each item of a batch also has its own idempotency key.
+ * Keys of new transactions are scoped by the consumer they are made for (by the consumers of its items for a batch).
  * It uses the TransactionController to handle the business logic.
  */
 
 const router = Router();
 
-router.post('', IdempotencyMiddleware, Validate(TransactionRequestSchema), CatchAsync(TransactionController.createTransaction));
+router.post('', Idempotency({ keyFormat: 'uuid', cacheErrors: true, scope: resolveConsumerPrincipal }), Validate(TransactionRequestSchema), CatchAsync(TransactionController.createTransaction));
+router.post('/batch', Idempotency({ keyFormat: 'uuid', cacheErrors: true, scope: resolveBatchConsumerPrincipal }), Validate(TransactionBatchRequestSchema), CatchAsync(TransactionController.createTransactionBatch));
 router.get('', CatchAsync(TransactionController.getAllTransactions));
+router.get('/:id', CatchAsync(TransactionController.getTransactionById));
+router.patch('/:id/status', Idempotency({ keyFormat: 'uuid', cacheErrors: true }), Validate(TransactionStatusUpdateSchema), CatchAsync(TransactionController.updateTransactionStatus));
+router.post('/:id/cancel', Idempotency({ keyFormat: 'uuid', cacheErrors: true }), CatchAsync(TransactionController.cancelTransaction));
+router.post('/:id/refunds', Idempotency({ keyFormat: 'uuid', cacheErrors: true }), Validate(RefundRequestSchema), CatchAsync(TransactionController.refundTransaction));
 
 export default router;
@@ -0,0 +1,135 @@
+import "dotenv/config";
+import { ValidationError, ValidationErrorItem, DatabaseError, Transaction as SequelizeTransaction, UniqueConstraintError } from 'sequelize';
+
+import AppError from "../exceptions/app-error.exception";
+import Consumer from "../models/consumer.model";
+import DatabaseConfig from "../config/db.config";
+import LedgerService from "./ledger.service";
+import { ConsumerBalanceResponse, ConsumerResponse } from "../dtos/consumer-response.dto";
+import { ConsumerRequest } from "../dtos/consumer-request.dto";
+import { formatAmount } from "../utils/amount.util";
+
+/**
+ * ConsumerService handles the business logic for consumer accounts.
+ * It provides methods to open accounts and read their balance, with proper error handling,
+ * and the balance operations used by TransactionService.
+ * A balance is only changed under a lock of the consumer row, taken in the database transaction
+ * that creates or settles the transaction, so concurrent transactions of a consumer are applied one after the other.
+ * Every change of a balance posts its ledger entries (see LedgerService) in the same database transaction.
+ */
+class ConsumerService {
+    async createConsumer(consumerRequest: ConsumerRequest): Promise<ConsumerResponse> {
+        try {
+            return await DatabaseConfig.withTransaction(async (t) => {
+                if (consumerRequest.id && await Consumer.findByPk(consumerRequest.id, { transaction: t })) {
+                    throw AppError.Conflict("Consumer already exists", `A consumer with ID "${consumerRequest.id}" already exists.`);
+                }
+
+                const consumer = await Consumer.create({
+                    ...(consumerRequest.id ? { id: consumerRequest.id } : {}),
+                    balance: '0',
+                    currency: consumerRequest.currency,
+                }, { transaction: t });
+
+                return this.toConsumerResponse(consumer);
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            // The same ID was taken by a concurrent request
+            if (error instanceof UniqueConstraintError) {
+                throw AppError.Conflict("Consumer already exists", `A consumer with ID "${consumerRequest.id}" already exists.`);
+            }
+
+            if (error instanceof ValidationError) {
+                const messages = error.errors.map((e: ValidationErrorItem) => e.message);
+                throw AppError.BadRequest("Validation errors occurred", messages);
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while creating the consumer", error);
+        }
+    }
+
+    async getBalance(id: string): Promise<ConsumerBalanceResponse> {
+        try {
+            const consumer = await Consumer.findByPk(id, {
+                attributes: ['id', 'balance', 'currency', 'updatedAt'],
+            });
+            if (!consumer) {
+                throw AppError.NotFound("Consumer not found", `No consumer found with ID "${id}".`);
+            }
+
+            return {
+                consumerId: consumer.id,
+                balance: formatAmount(consumer.balance, consumer.currency),
+                currency: consumer.currency,
+                updatedAt: consumer.updatedAt,
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while fetching the balance", error);
+        }
+    }
+
+    // Lock a consumer row until the database transaction ends, before reading or changing its balance
+    async lockConsumer(id: string, t: SequelizeTransaction): Promise<Consumer> {
+        const consumer = await Consumer.findByPk(id, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!consumer) {
+            throw AppError.NotFound("Consumer not found", `No consumer found with ID "${id}".`);
+        }
+        return consumer;
+    }
+
+    // Lock several consumer rows until the database transaction ends, in the order of their IDs
+    // Concurrent database transactions that lock them all up front therefore wait for each other instead of deadlocking
+    // Consumers that do not exist are skipped, and reported by lockConsumer when they are used
+    async lockConsumers(ids: string[], t: SequelizeTransaction): Promise<void> {
+        if (ids.length === 0) {
+            return;
+        }
+        await Consumer.findAll({ attributes: ['id'], where: { id: ids }, order: [['id', 'ASC']], transaction: t, lock: t.LOCK.UPDATE });
+    }
+
+    // Take an amount (in minor units of the currency of the account) of a transaction from the balance of a locked consumer,
+    // which must cover it
+    async debit(consumer: Consumer, amount: bigint, transactionId: string, t: SequelizeTransaction): Promise<void> {
+        const balance = BigInt(consumer.balance);
+        if (balance < amount) {
+            const { currency } = consumer;
+            throw AppError.UnprocessableEntity("Insufficient funds", `The balance of the consumer (${formatAmount(balance, currency)} ${currency}) does not cover ${formatAmount(amount, currency)} ${currency}.`);
+        }
+        await consumer.update({ balance: (balance - amount).toString() }, { transaction: t });
+        await LedgerService.post(transactionId, consumer.id, -amount, consumer.currency, t);
+    }
+
+    // Add an amount (in minor units of the currency of the account) of a transaction to the balance of a locked consumer
+    async credit(consumer: Consumer, amount: bigint, transactionId: string, t: SequelizeTransaction): Promise<void> {
+        await consumer.update({ balance: (BigInt(consumer.balance) + amount).toString() }, { transaction: t });
+        await LedgerService.post(transactionId, consumer.id, amount, consumer.currency, t);
+    }
+
+    private toConsumerResponse(consumer: Consumer): ConsumerResponse {
+        return {
+            id: consumer.id,
+            balance: formatAmount(consumer.balance, consumer.currency),
+            currency: consumer.currency,
+            createdAt: consumer.createdAt,
+            updatedAt: consumer.updatedAt,
+        };
+    }
+}
+
+export default new ConsumerService();
@@ -0,0 +1,401 @@
+import "dotenv/config";
+import { Op, Transaction, WhereOptions } from "sequelize";
+
+import AppError from "../exceptions/app-error.exception";
+import DatabaseConfig from "../config/db.config";
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import RedisIdempotencyStore from "../stores/redis-idempotency.store";
+import IdempotencyUsage from "../utils/idempotency-usage.util";
+import PayloadCodec from "../utils/payload-codec.util";
+import RedisUtil from "../utils/redis.util";
+import { IdempotencyMeta } from "../models/idempotency-meta.model";
+import { IdempotencyOutbox } from "../models/idempotency-outbox.model";
+import { IdempotencyRecord } from "../types/idempotency-store.interface";
+import { IdempotencyScope, parseScopedKey, toScopedKey } from "../utils/idempotency-scope.util";
+import { IdempotencyKeyExactScopeQuery, IdempotencyKeyListQuery, IdempotencyKeyScopeQuery } from "../dtos/idempotency-admin-request.dto";
+import {
+    IdempotencyDatabaseState,
+    IdempotencyKeyChangeResult,
+    IdempotencyKeyState,
+    IdempotencyKeySummary,
+    IdempotencyRedisState,
+    IdempotencyReservationList,
+    IdempotencyReservationState,
+    IdempotencyUsageTrail,
+} from "../dtos/idempotency-admin-response.dto";
+
+/**
+ * IdempotencyAdminService handles the operations of the idempotency admin API.
+ * It inspects and changes idempotency state directly in both stores: the idempotency_meta table (through IdempotencyMeta)
+ * and the Redis cache (through RedisUtil), independently of the configured store, so drift between them is visible.
+ * Changes are committed to the database first, then applied to Redis; with the tiered store an outbox entry is written too,
+ * so that the reconciler finishes the change if Redis is unavailable.
+ */
+
+// Whether an error is Redis being unavailable (the circuit breaker is open or the command failed)
+const isRedisUnavailable = (error: unknown): boolean => {
+    return error instanceof AppError && error.statusCode === 503;
+};
+
+// Escape the characters Redis glob patterns treat specially, to match them literally
+const escapeGlob = (value: string): string => {
+    return value.replace(/[*?[\]\\]/g, (character) => `\\${character}`);
+};
+
+class IdempotencyAdminService {
+    private redisStore: RedisIdempotencyStore = new RedisIdempotencyStore();
+
+    async listKeys(query: IdempotencyKeyListQuery): Promise<IdempotencyKeySummary[]> {
+        // Build the filters from the query, leaving out the ones that are not set
+        const where: WhereOptions = {};
+        if (query.principal !== undefined) {
+            Object.assign(where, { principal: query.principal });
+        }
+        if (query.method) {
+            Object.assign(where, { method: query.method });
+        }
+        if (query.route) {
+            Object.assign(where, { route: query.route });
+        }
+        if (query.key) {
+            Object.assign(where, { key: { [Op.startsWith]: query.key } });
+        }
+        if (query.status) {
+            Object.assign(where, { status: query.status });
+        }
+        if (query.expired !== undefined) {
+            Object.assign(where, { expiredAt: query.expired ? { [Op.lte]: new Date() } : { [Op.gt]: new Date() } });
+        }
+        if (query.since) {
+            Object.assign(where, { createdAt: { [Op.gte]: query.since } });
+        }
+
+        const rows = await IdempotencyMeta.findAll({
+            attributes: ['principal', 'method', 'route', 'key', 'status', 'statusCode', 'replayCount', 'conflictCount', 'createdAt', 'expiredAt'],
+            where,
+            order: [['createdAt', 'DESC']],
+            limit: query.limit,
+            offset: query.offset,
+        });
+
+        return rows.map((row) => ({
+            scopedKey: toScopedKey(row),
+            principal: row.principal,
+            method: row.method,
+            route: row.route,
+            key: row.key,
+            status: row.status,
+            statusCode: row.statusCode,
+            replayCount: row.replayCount,
+            conflictCount: row.conflictCount,
+            createdAt: row.createdAt,
+            expiredAt: row.expiredAt,
+            expired: this.isExpired(row.expiredAt),
+        }));
+    }
+
+    async lookupKey(key: string, scope: IdempotencyKeyScopeQuery): Promise<IdempotencyKeyState[]> {
+        // Find the key in every scope matching the given one, in the database...
+        const rows = await IdempotencyMeta.findAll({
+            where: { key, ...this.definedScope(scope) },
+            order: [['createdAt', 'DESC']],
+        });
+        const rowsByScopedKey = new Map<string, IdempotencyMeta>(rows.map((row) => [toScopedKey(row), row]));
+
+        // ...and in Redis, which may hold records the database does not have
+        const scopedKeys = new Set<string>(rowsByScopedKey.keys());
+        if (IdempotencyStoreConfig.usesRedis()) {
+            try {
+                for (const scopedKey of await this.scanRecordKeys(key, scope)) {
+                    scopedKeys.add(scopedKey);
+                }
+            } catch (error) {
+                if (!isRedisUnavailable(error)) {
+                    throw error;
+                }
+                // The Redis state of each key is reported as unavailable below
+            }
+        }
+
+        if (scopedKeys.size === 0) {
+            throw AppError.NotFound("Idempotency key not found", `The idempotency key "${key}" was not found in any store.`);
+        }
+
+        const states: IdempotencyKeyState[] = [];
+        for (const scopedKey of scopedKeys) {
+            const row = rowsByScopedKey.get(scopedKey) || null;
+            const keyScope = parseScopedKey(scopedKey) as IdempotencyScope;
+            states.push({
+                scopedKey,
+                ...keyScope,
+                database: row ? await this.toDatabaseState(scopedKey, row) : null,
+                redis: await this.getRedisState(scopedKey, row),
+                trail: await this.getUsageTrail(scopedKey, row),
+            });
+        }
+        return states;
+    }
+
+    async expireKey(key: string, scope: IdempotencyKeyExactScopeQuery): Promise<IdempotencyKeyChangeResult> {
+        // Expire the completed record in the database, and drop it from Redis,
+        // so that retries fall through to the database and get 419 Expired
+        return this.changeKey({ ...scope, key }, 'upsert', false, async (transaction) => {
+            const [affectedRows] = await IdempotencyMeta.update({ expiredAt: new Date() }, {
+                where: { ...scope, key, status: 'completed' },
+                transaction,
+            });
+            return affectedRows;
+        });
+    }
+
+    async deleteKey(key: string, scope: IdempotencyKeyExactScopeQuery): Promise<IdempotencyKeyChangeResult> {
+        // Delete the record and any in-flight reservation, so the key can be used again
+        return this.changeKey({ ...scope, key }, 'delete', true, async (transaction) => {
+            return IdempotencyMeta.destroy({
+                where: { ...scope, key },
+                transaction,
+            });
+        });
+    }
+
+    async listReservations(limit: number = 100): Promise<IdempotencyReservationList> {
+        const reservations = new Map<string, IdempotencyReservationState>();
+        const getReservation = (scopedKey: string): IdempotencyReservationState | null => {
+            const scope = parseScopedKey(scopedKey);
+            if (!scope) {
+                return null;
+            }
+            if (!reservations.has(scopedKey)) {
+                reservations.set(scopedKey, { scopedKey, ...scope });
+            }
+            return reservations.get(scopedKey) as IdempotencyReservationState;
+        };
+
+        // Reservations held in the database, with whether their lease has expired
+        const rows = await IdempotencyMeta.findAll({
+            attributes: ['principal', 'method', 'route', 'key', 'status', 'lockedUntil', 'createdAt'],
+            where: { status: ['processing', 'unknown'] },
+            order: [['createdAt', 'DESC']],
+            limit,
+        });
+        for (const row of rows) {
+            const reservation = getReservation(toScopedKey(row)) as IdempotencyReservationState;
+            reservation.database = {
+                lockedUntil: row.lockedUntil,
+                stale: !!row.lockedUntil && row.lockedUntil < new Date(),
+                outcomeUnknown: row.status === 'unknown',
+                createdAt: row.createdAt,
+            };
+        }
+
+        // Locks held in Redis, with their remaining lease
+        let redisState: IdempotencyRedisState['state'] = 'disabled';
+        if (IdempotencyStoreConfig.usesRedis()) {
+            try {
+                const lockKeys = await RedisUtil.scanKeys(this.redisStore.getLockKeyPattern());
+                for (const lockKey of lockKeys.slice(0, limit)) {
+                    const scopedKey = this.redisStore.parseLockKey(lockKey) || '';
+                    const reservation = getReservation(scopedKey);
+                    const [token, ttlSeconds, flaggedToken] = await Promise.all([
+                        RedisUtil.get<string>(lockKey),
+                        RedisUtil.ttl(lockKey),
+                        RedisUtil.get<string>(this.redisStore.getUnknownOutcomeKey(scopedKey)),
+                    ]);
+                    if (reservation && token) {
+                        reservation.redis = { token, ttlSeconds, outcomeUnknown: flaggedToken === token };
+                    }
+                }
+                redisState = 'available';
+            } catch (error) {
+                if (!isRedisUnavailable(error)) {
+                    throw error;
+                }
+                redisState = 'unavailable';
+            }
+        }
+
+        return {
+            redis: redisState,
+            reservations: Array.from(reservations.values()),
+        };
+    }
+
+    // Commit a change to the database, then delete the Redis keys of the scoped key (the record, and the lock if asked)
+    // Fails with NotFound if the key was in neither store
+    private async changeKey(scope: IdempotencyScope, operation: "upsert" | "delete", includeLock: boolean, changeDatabase: (transaction: Transaction) => Promise<number>): Promise<IdempotencyKeyChangeResult> {
+        const scopedKey = toScopedKey(scope);
+        const redisKeys = [this.redisStore.getRecordKey(scopedKey)];
+        if (includeLock) {
+            redisKeys.push(this.redisStore.getLockKey(scopedKey), this.redisStore.getUnknownOutcomeKey(scopedKey));
+        }
+
+        let redisResult: IdempotencyKeyChangeResult['redis'] = { state: 'disabled' };
+        const affectedRows = await DatabaseConfig.withTransaction(async (transaction) => {
+            const changedRows = await changeDatabase(transaction);
+
+            // With the tiered store, record the change in the outbox, so the reconciler applies it to Redis if we cannot
+            const outboxEntry = changedRows > 0 && IdempotencyStoreConfig.getStoreType() === 'tiered'
+                ? await IdempotencyOutbox.create({ key: scopedKey, operation }, { transaction })
+                : null;
+
+            DatabaseConfig.onCommit(async () => {
+                redisResult = await this.deleteRedisKeys(redisKeys);
+                if (outboxEntry && redisResult.state === 'available') {
+                    await outboxEntry.update({ processedAt: new Date() });
+                }
+            });
+            return changedRows;
+        });
+
+        const result: IdempotencyKeyChangeResult = { scopedKey, database: { affectedRows }, redis: redisResult };
+        if (affectedRows === 0 && !result.redis.deletedKeys) {
+            throw AppError.NotFound("Idempotency key not found", `The idempotency key "${scope.key}" was not found in the given scope.`);
+        }
+        return result;
+    }
+
+    private async deleteRedisKeys(redisKeys: string[]): Promise<IdempotencyKeyChangeResult['redis']> {
+        if (!IdempotencyStoreConfig.usesRedis()) {
+            return { state: 'disabled' };
+        }
+
+        let deletedKeys = 0;
+        try {
+            for (const redisKey of redisKeys) {
+                try {
+                    await RedisUtil.del(redisKey);
+                    deletedKeys++;
+                } catch (error) {
+                    if (isRedisUnavailable(error)) {
+                        throw error;
+                    }
+                    // RedisUtil.del throws when the key does not exist, which is fine here
+                }
+            }
+        } catch {
+            return { state: 'unavailable', deletedKeys };
+        }
+        return { state: 'available', deletedKeys };
+    }
+
+    // Find the scoped keys cached in Redis for a key, in every scope matching the given one
+    private async scanRecordKeys(key: string, scope: IdempotencyKeyScopeQuery): Promise<string[]> {
+        const scopedKeyPattern = [scope.method, scope.route, scope.principal, key]
+            .map((part) => (part === undefined ? '*' : escapeGlob(encodeURIComponent(part))))
+            .join(':');
+        const redisKeys = await RedisUtil.scanKeys(this.redisStore.getRecordKeyPattern(scopedKeyPattern));
+
+        const scopedKeys: string[] = [];
+        for (const redisKey of redisKeys) {
+            // A wildcard can match across segments (e.g. a lock key), so check the key and scope again
+            const scopedKey = this.redisStore.parseRecordKey(redisKey);
+            const keyScope = scopedKey ? parseScopedKey(scopedKey) : null;
+            if (keyScope && keyScope.key === key && Object.entries(this.definedScope(scope)).every(([field, value]) => keyScope[field as keyof IdempotencyScope] === value)) {
+                scopedKeys.push(scopedKey as string);
+            }
+        }
+        return scopedKeys;
+    }
+
+    private async getRedisState(scopedKey: string, row: IdempotencyMeta | null): Promise<IdempotencyRedisState> {
+        if (!IdempotencyStoreConfig.usesRedis()) {
+            return { state: 'disabled' };
+        }
+
+        try {
+            const recordKey = this.redisStore.getRecordKey(scopedKey);
+            const lockKey = this.redisStore.getLockKey(scopedKey);
+            const [record, recordTtl, token, lockTtl] = await Promise.all([
+                RedisUtil.get<IdempotencyRecord>(recordKey),
+                RedisUtil.ttl(recordKey),
+                RedisUtil.get<string>(lockKey),
+                RedisUtil.ttl(lockKey),
+            ]);
+
+            // Payloads are compared decoded, as each store encodes them with its own IV
+            const payloadsMatch = !!row?.responsePayload && !!record
+                && await PayloadCodec.decode(row.responsePayload, scopedKey) === await PayloadCodec.decode(record.responsePayload, scopedKey);
+
+            return {
+                state: 'available',
+                record: record ? {
+                    bodyHash: record.bodyHash,
+                    fingerprintFields: record.fingerprintFields,
+                    statusCode: record.statusCode,
+                    expiredAt: record.expiredAt,
+                    ttlSeconds: recordTtl,
+                    matchesDatabase: !!row
+                        && row.status === 'completed'
+                        && row.bodyHash === record.bodyHash
+                        && (row.statusCode ?? null) === (record.statusCode ?? null)
+                        && payloadsMatch,
+                } : null,
+                lock: token ? { token, ttlSeconds: lockTtl } : null,
+            };
+        } catch (error) {
+            if (isRedisUnavailable(error)) {
+                return { state: 'unavailable' };
+            }
+            throw error;
+        }
+    }
+
+    // Combine the usage trail stored in the database with the counters still pending in Redis
+    private async getUsageTrail(scopedKey: string, row: IdempotencyMeta | null): Promise<IdempotencyUsageTrail> {
+        let pending: IdempotencyUsageTrail['pending'] = null;
+        let pendingLastReplayedAt: Date | undefined;
+        try {
+            const counters = await IdempotencyUsage.getPending(scopedKey);
+            pending = { replayCount: counters.replayCount, conflictCount: counters.conflictCount };
+            pendingLastReplayedAt = counters.lastReplayedAt;
+        } catch (error) {
+            if (!isRedisUnavailable(error)) {
+                throw error;
+            }
+        }
+
+        const storedLastReplayedAt = row?.lastReplayedAt || undefined;
+        return {
+            firstRequestId: row?.firstRequestId,
+            clientIp: row?.clientIp,
+            userAgent: row?.userAgent,
+            replayCount: (row?.replayCount || 0) + (pending?.replayCount || 0),
+            lastReplayedAt: pendingLastReplayedAt && (!storedLastReplayedAt || pendingLastReplayedAt > storedLastReplayedAt) ? pendingLastReplayedAt : storedLastReplayedAt,
+            conflictCount: (row?.conflictCount || 0) + (pending?.conflictCount || 0),
+            pending,
+        };
+    }
+
+    private async toDatabaseState(scopedKey: string, row: IdempotencyMeta): Promise<IdempotencyDatabaseState> {
+        return {
+            id: row.id,
+            status: row.status,
+            bodyHash: row.bodyHash,
+            fingerprintFields: row.fingerprintFields,
+            statusCode: row.statusCode,
+            responseHeaders: row.responseHeaders ? JSON.parse(row.responseHeaders) : undefined,
+            responsePayload: row.responsePayload ? await PayloadCodec.decode(row.responsePayload, scopedKey) : row.responsePayload,
+            lockedUntil: row.lockedUntil,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            expiredAt: row.expiredAt,
+            expired: this.isExpired(row.expiredAt),
+        };
+    }
+
+    private definedScope(scope: IdempotencyKeyScopeQuery): Partial<IdempotencyScope> {
+        const definedScope: Partial<IdempotencyScope> = {};
+        for (const field of ['principal', 'method', 'route'] as const) {
+            if (scope[field] !== undefined) {
+                definedScope[field] = scope[field];
+            }
+        }
+        return definedScope;
+    }
+
+    private isExpired(expiredAt?: Date): boolean {
+        return !!expiredAt && expiredAt <= new Date();
+    }
+}
+
+export default new IdempotencyAdminService();
@@ -0,0 +1,94 @@
+import "dotenv/config";
+import { DatabaseError, literal, Transaction as SequelizeTransaction } from 'sequelize';
+
+import AppError from "../exceptions/app-error.exception";
+import Consumer from "../models/consumer.model";
+import LedgerEntry from "../models/ledger-entry.model";
+import Logger from "../utils/logger.util";
+import { formatAmount } from "../utils/amount.util";
+import { LedgerPage } from "../dtos/ledger-response.dto";
+import { LedgerQuery } from "../dtos/ledger-request.dto";
+
+/**
+ * LedgerService handles the double-entry ledger behind transactions.
+ * It posts the entries of every movement of money, in the database transaction that changes the balance,
+ * and reads the ledger of an account with its running balance, with proper error handling.
+ * Every posting is checked to leave the entries of its transaction summing to zero; an unbalanced posting
+ * fails, which rolls back the whole database transaction.
+ */
+
+// The account of the system that every consumer entry is balanced against
+export const CLEARING_ACCOUNT = 'system:clearing';
+
+class LedgerService {
+    // Post an amount (in minor units, positive to credit the consumer, negative to debit it) against the clearing account
+    async post(transactionId: string, consumerId: string, amount: bigint, currency: string, t: SequelizeTransaction): Promise<void> {
+        await LedgerEntry.bulkCreate([
+            { transactionId, account: consumerId, amount: amount.toString(), currency },
+            { transactionId, account: CLEARING_ACCOUNT, amount: (-amount).toString(), currency },
+        ], { transaction: t });
+
+        await this.checkBalanced(transactionId, t);
+    }
+
+    async getAccountLedger(consumerId: string, query: LedgerQuery): Promise<LedgerPage> {
+        try {
+            if (!(await Consumer.findByPk(consumerId, { attributes: ['id'] }))) {
+                throw AppError.NotFound("Consumer not found", `No consumer found with ID "${consumerId}".`);
+            }
+
+            // The running balance is summed over all the entries of the account up to each one, before the page is cut
+            const { rows, count } = await LedgerEntry.findAndCountAll({
+                attributes: [
+                    'id', 'transactionId', 'amount', 'currency', 'createdAt',
+                    [literal('SUM("amount") OVER (ORDER BY "id")'), 'runningBalance'],
+                ],
+                where: { account: consumerId },
+                order: [['id', 'ASC']],
+                limit: query.limit,
+                offset: (query.page - 1) * query.limit,
+            });
+
+            return {
+                entries: rows.map((entry) => ({
+                    id: entry.id,
+                    transactionId: entry.transactionId,
+                    direction: BigInt(entry.amount) < BigInt(0) ? 'debit' : 'credit',
+                    amount: formatAmount(entry.amount, entry.currency),
+                    currency: entry.currency,
+                    runningBalance: formatAmount(entry.get('runningBalance') as string, entry.currency),
+                    createdAt: entry.createdAt,
+                })),
+                total: count,
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while fetching the ledger", error);
+        }
+    }
+
+    // Check that the entries of a transaction sum to zero, including the ones posted before in this database transaction
+    // The sum is computed by the database, as BIGINT sums can exceed what a JavaScript number holds exactly
+    private async checkBalanced(transactionId: string, t: SequelizeTransaction): Promise<void> {
+        const [result] = await LedgerEntry.findAll({
+            attributes: [[literal('COALESCE(SUM("amount"), 0)::TEXT'), 'total']],
+            where: { transactionId },
+            raw: true,
+            transaction: t,
+        });
+        const total = (result as unknown as { total: string }).total;
+        if (BigInt(total) !== BigInt(0)) {
+            Logger.error(`Ledger entries of transaction "${transactionId}" sum to ${total} instead of zero`);
+            throw AppError.InternalServerError("Unbalanced ledger entries", `The ledger entries of transaction "${transactionId}" do not balance.`);
+        }
+    }
+}
+
+export default new LedgerService();
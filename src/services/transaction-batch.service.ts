@@ -0,0 +1,260 @@
+import "dotenv/config";
+import { ValidationError, ValidationErrorItem, DatabaseError, Transaction as SequelizeTransaction } from 'sequelize';
+import { validate as isUuid } from "uuid";
+
+import AppError from "../exceptions/app-error.exception";
+import BatchIdempotency, { BatchItemLease, BatchItemResponse } from "../utils/batch-idempotency.util";
+import ConsumerService from "./consumer.service";
+import DatabaseConfig from "../config/db.config";
+import Transaction from "../models/transaction.model";
+import TransactionService from "./transaction.service";
+import { TransactionBatchRequest, TransactionRequest, TransactionRequestSchema } from "../dtos/transaction-request.dto";
+import { TransactionBatchItemResult, TransactionBatchResponse } from "../dtos/transaction-response.dto";
+
+// An item whose idempotency key is reserved, with its validated transaction request, or the validation error it got
+interface ReservedItem {
+    index: number;
+    lease: BatchItemLease;
+    transactionRequest?: TransactionRequest;
+    rejection?: BatchItemResponse;
+}
+
+const CREATED_MESSAGE = "Transaction created successfully";
+
+// Build the result of an item from the response the route it targets would have sent
+const toResult = (index: number, idempotencyKey: string, status: TransactionBatchItemResult['status'], response: BatchItemResponse): TransactionBatchItemResult => {
+    return {
+        index,
+        idempotencyKey,
+        status,
+        statusCode: response.statusCode,
+        message: response.message,
+        ...(response.data !== undefined && response.data !== null ? { data: response.data } : {}),
+        ...(response.error !== undefined && response.error !== null ? { error: response.error } : {}),
+    };
+};
+
+// The response an error would have been answered with by the error handler
+const toErrorResponse = (error: unknown): BatchItemResponse => {
+    if (error instanceof AppError) {
+        return { statusCode: error.statusCode, message: error.message, error: error.details };
+    }
+    return { statusCode: 500, message: "An unexpected error occurred while creating the transaction" };
+};
+
+/**
+ * TransactionBatchService handles the business logic for batches of transactions.
+ * Each item is created like a single transaction request (see TransactionService.createTransaction),
+ * under its own idempotency key, which is claimed before the item is processed and settled afterwards (see BatchIdempotency).
+ * In best-effort mode, the items are created one after the other, each in its own database transaction.
+ * In all-or-nothing mode, they are all created in a single database transaction, and only if every item is valid
+ * and its key is free; otherwise nothing is created, no item outcome is stored, and the batch is rejected with every result.
+ * The rows the items change are locked up front in that mode, in a deterministic order, so concurrent batches cannot deadlock.
+ * Items that were already processed are replayed in either mode, and never created again.
+ */
+class TransactionBatchService {
+    async createTransactionBatch(batch: TransactionBatchRequest, idempotency: BatchIdempotency): Promise<TransactionBatchResponse> {
+        const results: TransactionBatchItemResult[] = [];
+
+        try {
+            const reservedItems = await this.claimItems(batch, idempotency, results);
+            if (batch.mode === 'best-effort') {
+                await this.createEach(batch, reservedItems, idempotency, results);
+            } else {
+                await this.createAll(batch, reservedItems, idempotency, results);
+            }
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof ValidationError) {
+                const messages = error.errors.map((e: ValidationErrorItem) => e.message);
+                throw AppError.BadRequest("Validation errors occurred", messages);
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while creating the transaction batch", error);
+        }
+
+        return this.toBatchResponse(batch, results);
+    }
+
+    // Check the idempotency key of every item, replay the items already processed,
+    // and reserve the keys of the others, validating their transaction request
+    private async claimItems(batch: TransactionBatchRequest, idempotency: BatchIdempotency, results: TransactionBatchItemResult[]): Promise<ReservedItem[]> {
+        const reservedItems: ReservedItem[] = [];
+        const seenKeys = new Set<string>();
+
+        for (const [index, item] of batch.items.entries()) {
+            const { idempotencyKey, transaction } = item;
+            if (!isUuid(idempotencyKey)) {
+                results[index] = toResult(index, idempotencyKey, 'invalid', toErrorResponse(AppError.BadRequest("Invalid idempotency key", "Idempotency key must be a UUID")));
+                continue;
+            }
+            if (seenKeys.has(idempotencyKey)) {
+                results[index] = toResult(index, idempotencyKey, 'invalid', toErrorResponse(AppError.BadRequest("Duplicate idempotency key", "Each item of a batch must have its own idempotency key.")));
+                continue;
+            }
+            seenKeys.add(idempotencyKey);
+
+            try {
+                const claim = await idempotency.claim(idempotencyKey, transaction);
+                if (claim.status === 'replayed') {
+                    results[index] = toResult(index, idempotencyKey, 'replayed', claim.response);
+                    continue;
+                }
+                if (claim.status === 'conflict') {
+                    results[index] = toResult(index, idempotencyKey, 'conflict', toErrorResponse(claim.error));
+                    continue;
+                }
+
+                // Validate the transaction request once its key is reserved, like the Validate middleware of a single request
+                const validationResult = TransactionRequestSchema.safeParse(transaction);
+                reservedItems.push(validationResult.success
+                    ? { index, lease: claim.lease, transactionRequest: validationResult.data }
+                    : { index, lease: claim.lease, rejection: toErrorResponse(AppError.BadRequest("Validation error", validationResult.error.flatten().fieldErrors)) });
+            } catch (error) {
+                results[index] = toResult(index, idempotencyKey, 'failed', toErrorResponse(error));
+            }
+        }
+
+        return reservedItems;
+    }
+
+    // Create the items one after the other, each settled with its own outcome
+    private async createEach(batch: TransactionBatchRequest, reservedItems: ReservedItem[], idempotency: BatchIdempotency, results: TransactionBatchItemResult[]): Promise<void> {
+        for (const reservedItem of reservedItems) {
+            const { index, lease, transactionRequest, rejection } = reservedItem;
+            const idempotencyKey = batch.items[index].idempotencyKey;
+
+            if (rejection) {
+                await idempotency.settle(lease, rejection);
+                results[index] = toResult(index, idempotencyKey, 'invalid', rejection);
+                continue;
+            }
+
+            try {
+                const transaction = await TransactionService.createTransaction(transactionRequest as TransactionRequest);
+                const response: BatchItemResponse = { statusCode: 201, message: CREATED_MESSAGE, data: transaction };
+                await idempotency.settle(lease, response);
+                results[index] = toResult(index, idempotencyKey, 'created', response);
+            } catch (error) {
+                // Client errors are settled like those of a single request; a failed item is released, so it can be retried
+                const response = toErrorResponse(error);
+                if (response.statusCode < 500) {
+                    await idempotency.settle(lease, response);
+                    results[index] = toResult(index, idempotencyKey, 'invalid', response);
+                } else {
+                    await idempotency.release(lease);
+                    results[index] = toResult(index, idempotencyKey, 'failed', response);
+                }
+            }
+        }
+    }
+
+    // Create all the items in a single database transaction, or none of them
+    // Their outcomes are only stored once the database transaction has been committed
+    private async createAll(batch: TransactionBatchRequest, reservedItems: ReservedItem[], idempotency: BatchIdempotency, results: TransactionBatchItemResult[]): Promise<void> {
+        for (const { index, rejection } of reservedItems) {
+            if (rejection) {
+                results[index] = toResult(index, batch.items[index].idempotencyKey, 'invalid', rejection);
+            }
+        }
+        if (results.some((result) => result && result.status !== 'replayed')) {
+            await this.rejectAll(batch, reservedItems, idempotency, results);
+        }
+
+        const createdResponses = new Map<number, BatchItemResponse>();
+        try {
+            await DatabaseConfig.withTransaction(async (t) => {
+                await this.lockAffectedRows(reservedItems, t);
+
+                for (const { index, transactionRequest } of reservedItems) {
+                    try {
+                        // Each item joins the database transaction of the batch
+                        const transaction = await TransactionService.createTransaction(transactionRequest as TransactionRequest);
+                        createdResponses.set(index, { statusCode: 201, message: CREATED_MESSAGE, data: transaction });
+                    } catch (error) {
+                        const response = toErrorResponse(error);
+                        results[index] = toResult(index, batch.items[index].idempotencyKey, response.statusCode < 500 ? 'invalid' : 'failed', response);
+                        throw error;
+                    }
+                }
+            });
+        } catch (error) {
+            // The database transaction has been rolled back, so no item was created
+            if (results.some((result) => result && result.status !== 'replayed')) {
+                await this.rejectAll(batch, reservedItems, idempotency, results);
+            }
+            for (const { lease } of reservedItems) {
+                await idempotency.release(lease);
+            }
+            throw error;
+        }
+
+        for (const { index, lease } of reservedItems) {
+            const response = createdResponses.get(index) as BatchItemResponse;
+            await idempotency.settle(lease, response);
+            results[index] = toResult(index, batch.items[index].idempotencyKey, 'created', response);
+        }
+    }
+
+    // Lock the rows the items of an all-or-nothing batch change before creating any of them, each kind in the order of their IDs:
+    // the refunded payments first, then the consumers, which is also the order a single transaction request locks them in
+    // Otherwise each item would lock its rows in the order of the batch, and two batches with the same consumers could deadlock
+    private async lockAffectedRows(reservedItems: ReservedItem[], t: SequelizeTransaction): Promise<void> {
+        const transactionRequests = reservedItems.map(({ transactionRequest }) => transactionRequest as TransactionRequest);
+        const paymentIds = new Set<string>();
+        const consumerIds = new Set<string>();
+        for (const { consumerId, parentTransactionId } of transactionRequests) {
+            consumerIds.add(consumerId.toLowerCase());
+            if (parentTransactionId) {
+                paymentIds.add(parentTransactionId.toLowerCase());
+            }
+        }
+
+        if (paymentIds.size > 0) {
+            await Transaction.findAll({ attributes: ['id'], where: { id: Array.from(paymentIds) }, order: [['id', 'ASC']], transaction: t, lock: t.LOCK.UPDATE });
+        }
+        await ConsumerService.lockConsumers(Array.from(consumerIds), t);
+    }
+
+    // Reject an all-or-nothing batch: release every reserved key, and report the items that could have been created as skipped
+    // The batch is rejected with 422 if an item is invalid, with 409 if the only problem is a key in use (so it can be retried),
+    // or with 500 if an item failed unexpectedly
+    private async rejectAll(batch: TransactionBatchRequest, reservedItems: ReservedItem[], idempotency: BatchIdempotency, results: TransactionBatchItemResult[]): Promise<never> {
+        for (const { index, lease } of reservedItems) {
+            await idempotency.release(lease);
+            if (!results[index]) {
+                results[index] = toResult(index, batch.items[index].idempotencyKey, 'skipped', {
+                    statusCode: 424,
+                    message: "Transaction not created",
+                    error: "Another item of the all-or-nothing batch was rejected.",
+                });
+            }
+        }
+
+        const details = this.toBatchResponse(batch, results);
+        if (results.some((result) => result.status === 'invalid')) {
+            throw AppError.UnprocessableEntity("Transaction batch rejected", details);
+        }
+        if (results.some((result) => result.status === 'conflict')) {
+            throw AppError.Conflict("Transaction batch rejected", details);
+        }
+        throw AppError.InternalServerError("Transaction batch rejected", details);
+    }
+
+    private toBatchResponse(batch: TransactionBatchRequest, results: TransactionBatchItemResult[]): TransactionBatchResponse {
+        const summary: TransactionBatchResponse['summary'] = { created: 0, replayed: 0, conflict: 0, invalid: 0, failed: 0, skipped: 0 };
+        for (const result of results) {
+            summary[result.status]++;
+        }
+        return { mode: batch.mode, results, summary };
+    }
+}
+
+export default new TransactionBatchService();
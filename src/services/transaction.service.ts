@@ -1,27 +1,49 @@
 import "dotenv/config";
-import { ValidationError, ValidationErrorItem, DatabaseError } from 'sequelize';
+import { ValidationError, ValidationErrorItem, DatabaseError, literal, Op, Sequelize, Transaction as SequelizeTransaction, WhereOptions } from 'sequelize';
 
 import AppError from "../exceptions/app-error.exception";
+import ConsumerService from "./consumer.service";
 import DatabaseConfig from "../config/db.config";
+import SettlementStream from "../utils/settlement-stream.util";
 import Transaction from "../models/transaction.model";
-import RedisUtil from '../utils/redis.util';
-import { IdempotencyMeta, IdempotencyMetaCreationAttributes } from "../models/idempotency-meta.model";
-import { TransactionRequest, TransactionRequestSchema } from "../dtos/transaction-request.dto";
-import { TransactionResponse } from "../dtos/transaction-response.dto";
+import { RefundRequest, TransactionListQuery, TransactionRequest, TransactionRequestSchema, TransactionStatusUpdate } from "../dtos/transaction-request.dto";
+import { TransactionCursorPage, TransactionDetailResponse, TransactionPage, TransactionResponse } from "../dtos/transaction-response.dto";
+import { decodeCursor, encodeCursor, PaginationCursor } from "../utils/pagination-cursor.util";
+import { formatAmount, toMinorUnits } from "../utils/amount.util";
 
 /**
  * TransactionService handles the business logic for transactions.
- * It provides methods to create and retrieve transactions,
- * ensuring idempotency and proper error handling.
+ * It provides methods to create and retrieve transactions (with offset or cursor pagination), to change their status,
+ * and to refund payments, with proper error handling.
+ * The refunds of a payment never add up to more than its amount: the payment row is locked while a refund is checked and created.
+ * Transactions change the balance of their consumer in the same database transaction (see ConsumerService);
+ * a transaction row is always locked before its consumer row, so concurrent changes cannot deadlock.
+ * Every change of a balance posts balanced entries to the ledger (see LedgerService), atomically with it.
+ * Amounts are handled as BigInt minor units of their currency, and returned as exact decimal strings.
+ * New transactions are published to the settlement stream once committed, and settled by the settlement worker.
+ * Idempotency is handled by the idempotency middleware, not by this service.
  */
 
-class TransactionService {
-    async createTransaction(idempotencyKey: string, bodyHash: string, transactionRequest: TransactionRequest): Promise<TransactionResponse> {
-        // Validate the idempotency key
-        if (!idempotencyKey || typeof idempotencyKey !== 'string' || idempotencyKey.trim() === '') {
-            throw AppError.BadRequest("Invalid idempotency key", "Idempotency key is required and must be a non-empty string");
-        }
+// Attributes of a transaction returned by the API
+const TRANSACTION_ATTRIBUTES = ['id', 'type', 'amount', 'currency', 'status', 'consumerId', 'parentTransactionId', 'createdAt', 'updatedAt'];
+
+// Statuses of the refunds counted against the amount of their payment, as they are or may become effective
+const ACTIVE_REFUND_STATUSES = ['pending', 'completed'];
+
+// Types of transactions taken from the balance of the consumer when they are created, and given back if they fail or are cancelled
+// Payments are added to the balance once they are completed
+const DEBIT_TYPES = ['withdrawal', 'disbursement', 'refund'];
+
+// Statuses a transaction can move to from each status; completed, failed and cancelled transactions are final
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+    pending: ['completed', 'failed', 'cancelled'],
+    completed: [],
+    failed: [],
+    cancelled: [],
+};
 
+class TransactionService {
+    async createTransaction(transactionRequest: TransactionRequest): Promise<TransactionResponse> {
         // Validate the transaction request
         const validationResult = TransactionRequestSchema.safeParse(transactionRequest);
         if (!validationResult.success) {
@@ -29,55 +51,66 @@ class TransactionService {
         }
 
         // Destructure the validated data
-        const { type, amount, consumerId } = validationResult.data;
-
-        // Start a transaction
-        const t = await DatabaseConfig.beginTransaction();
+        const { type, amount, currency, consumerId, parentTransactionId } = validationResult.data;
+        const amountMinorUnits = toMinorUnits(amount, currency) as bigint; // Checked by the schema
 
         try {
-            // Create a new transaction
-            const transaction = await Transaction.create({
-                type: type,
-                amount: amount,
-                status: 'pending', // Default status
-                consumerId: consumerId,
-            }, { transaction: t });
-
-            // Prepare the response
-            const transactionResponse: TransactionResponse = {
-                id: transaction.id,
-                type: transaction.type,
-                amount: transaction.amount,
-                status: transaction.status,
-                consumerId: transaction.consumerId,
-                createdAt: transaction.createdAt,
-                updatedAt: transaction.updatedAt,
-            };
+            // Create the transaction in a database transaction of its own
+            // It is committed when the callback resolves, and rolled back if it throws
+            return await DatabaseConfig.withTransaction(async (t) => {
+                // A refund must fit in what is left to refund of its payment, and go back to the same consumer
+                if (type === 'refund') {
+                    const { payment, refundable } = await this.lockRefundablePayment(parentTransactionId as string, t);
+                    if (consumerId !== payment.consumerId || currency !== payment.currency) {
+                        throw AppError.UnprocessableEntity("Invalid refund", "A refund must go to the consumer of the payment it refunds, in the currency of the payment.");
+                    }
+                    this.checkRefundAmount(amountMinorUnits, refundable, currency);
+                }
 
-            // Prepare the idempotency metadata
-            const idempotencyMeta: IdempotencyMetaCreationAttributes = {
-                key: idempotencyKey,
-                bodyHash: bodyHash,
-                responsePayload: JSON.stringify(transactionResponse),
-                expiredAt: new Date(Date.now() + (process.env.IDEMPOTENCY_TTL_HOURS ? parseInt(process.env.IDEMPOTENCY_TTL_HOURS) * 3600 * 1000 : 3600 * 1000)), // Default TTL of 1 hour
-            };
+                // The consumer must exist, and the transaction must be in the currency of its account
+                const consumer = await ConsumerService.lockConsumer(consumerId, t);
+                if (currency !== consumer.currency) {
+                    throw AppError.UnprocessableEntity("Currency mismatch", `The account of the consumer is in ${consumer.currency}, not ${currency}.`);
+                }
 
-            // Create the idempotency metadata
-            const idempotencyMetaRecord = await IdempotencyMeta.create(idempotencyMeta, { transaction: t });
+                // Create a new transaction
+                const transaction = await Transaction.create({
+                    type: type,
+                    amount: amountMinorUnits.toString(),
+                    currency: currency,
+                    status: 'pending', // Default status
+                    consumerId: consumerId,
+                    parentTransactionId: parentTransactionId || null,
+                }, { transaction: t });
 
-            // Store the transaction in Redis with the idempotency key
-            const redisKey = process.env.IDEMPOTENCY_PREFIX ? `${process.env.IDEMPOTENCY_PREFIX}:${idempotencyKey}` : `idempotency:${idempotencyKey}`;
-            const ttl = process.env.IDEMPOTENCY_TTL_HOURS ? parseInt(process.env.IDEMPOTENCY_TTL_HOURS) * 3600 : 3600; // Default TTL of 1 hour
-            await RedisUtil.set(redisKey, idempotencyMetaRecord, ttl);
+                // Withdrawals, disbursements and refunds are taken from the balance, which must cover them, and posted to the ledger
+                // The transaction is rolled back with the debit if the funds are insufficient
+                if (DEBIT_TYPES.includes(type)) {
+                    await ConsumerService.debit(consumer, amountMinorUnits, transaction.id, t);
+                }
 
-            // Commit the transaction
-            await DatabaseConfig.commitTransaction();
+                // Hand the transaction to the settlement worker once it has been committed
+                // If it cannot be published (e.g. Redis is unavailable), the requeue sweep of the worker publishes it later
+                if (SettlementStream.isEnabled()) {
+                    DatabaseConfig.onCommit(() => SettlementStream.publish(transaction.id));
+                }
 
-            return transactionResponse;
-        } catch (error) {
-            // Rollback the transaction in case of error
-            await DatabaseConfig.rollbackTransaction();
+                // Prepare the response
+                const transactionResponse: TransactionResponse = {
+                    id: transaction.id,
+                    type: transaction.type,
+                    amount: formatAmount(transaction.amount, transaction.currency),
+                    currency: transaction.currency,
+                    status: transaction.status,
+                    consumerId: transaction.consumerId,
+                    ...(transaction.parentTransactionId ? { parentTransactionId: transaction.parentTransactionId } : {}),
+                    createdAt: transaction.createdAt,
+                    updatedAt: transaction.updatedAt,
+                };
 
+                return transactionResponse;
+            });
+        } catch (error) {
             if (error instanceof AppError) {
                 throw error; // Re-throw known AppErrors
             }
@@ -95,25 +128,94 @@ class TransactionService {
         }
     }
 
-    async getAllTransactions(limit = 10, offset = 0, sortBy = 'createdAt', sortOrder = 'desc'): Promise<TransactionResponse[]> {
+    async getAllTransactions(query: TransactionListQuery): Promise<TransactionPage> {
+        const where = this.buildFilters(query);
+
+        try {
+            // Fetch the page of transactions, sorted on a whitelisted column
+            // and then by ID, so that rows with the same value keep a stable order across pages
+            const { rows, count } = await Transaction.findAndCountAll({
+                attributes: TRANSACTION_ATTRIBUTES,
+                where,
+                order: [[query.sortBy, query.sortOrder.toUpperCase()], ['id', 'ASC']],
+                limit: query.limit,
+                offset: (query.page - 1) * query.limit,
+            });
+
+            return {
+                transactions: rows.map((transaction) => this.toTransactionResponse(transaction)),
+                total: count,
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while fetching transactions", error);
+        }
+    }
+
+    async getTransactionsByCursor(query: TransactionListQuery): Promise<TransactionCursorPage> {
+        const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+        if (cursor && cursor.sortOrder !== query.sortOrder) {
+            throw AppError.BadRequest("Invalid cursor", "The pagination cursor was issued for another sort order.");
+        }
+
+        // Read forward from the end of the previous page, or backward from the start of the next page
+        // in the reverse order, seeking on (createdAt, id) so that rows inserted meanwhile are neither skipped nor repeated
+        const forward = !cursor || cursor.direction === 'next';
+        const readOrder = forward === (query.sortOrder === 'asc') ? 'ASC' : 'DESC';
+        const filters = this.buildFilters(query);
+        let where: WhereOptions = filters;
+        if (cursor) {
+            const escape = (value: string) => (Transaction.sequelize as Sequelize).escape(value);
+            const comparison = readOrder === 'ASC' ? '>' : '<';
+            where = {
+                [Op.and]: [
+                    filters,
+                    literal(`("createdAt", "id") ${comparison} (CAST(${escape(cursor.createdAt)} AS TIMESTAMPTZ), CAST(${escape(cursor.id)} AS UUID))`),
+                ],
+            };
+        }
+
         try {
-            // Fetch all transactions with pagination and sorting
-            const transactions = await Transaction.findAll({
-                attributes: ['id', 'type', 'amount', 'status', 'consumerId', 'createdAt', 'updatedAt'],
-                order: [[sortBy, sortOrder.toUpperCase()]],
-                limit: limit,
-                offset: offset,
+            // Fetch one more row than the page holds, to know whether there is another page after it
+            const rows = await Transaction.findAll({
+                attributes: [
+                    ...TRANSACTION_ATTRIBUTES,
+                    // The exact position of the row, as a JavaScript Date would drop the microseconds
+                    [literal(`to_char("createdAt" AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`), 'createdAtPosition'],
+                ],
+                where,
+                order: [['createdAt', readOrder], ['id', readOrder]],
+                limit: query.limit + 1,
             });
 
-            return transactions.map(transaction => ({
+            const hasMore = rows.length > query.limit;
+            const page = rows.slice(0, query.limit);
+            if (!forward) {
+                page.reverse();
+            }
+
+            const toCursor = (transaction: Transaction, direction: PaginationCursor['direction']): string => encodeCursor({
+                createdAt: transaction.get('createdAtPosition') as string,
                 id: transaction.id,
-                type: transaction.type,
-                amount: transaction.amount,
-                status: transaction.status,
-                consumerId: transaction.consumerId,
-                createdAt: transaction.createdAt,
-                updatedAt: transaction.updatedAt,
-            }));
+                direction,
+                sortOrder: query.sortOrder,
+            });
+
+            // Reading forward, there is a previous page if we came from one; reading backward, there is a next page
+            const hasNext = forward ? hasMore : true;
+            const hasPrev = forward ? !!cursor : hasMore;
+            return {
+                transactions: page.map((transaction) => this.toTransactionResponse(transaction)),
+                nextCursor: hasNext && page.length > 0 ? toCursor(page[page.length - 1], 'next') : null,
+                prevCursor: hasPrev && page.length > 0 ? toCursor(page[0], 'prev') : null,
+            };
         } catch (error) {
             if (error instanceof AppError) {
                 throw error; // Re-throw known AppErrors
@@ -126,6 +228,225 @@ class TransactionService {
             throw AppError.InternalServerError("An unexpected error occurred while fetching transactions", error);
         }
     }
+
+    async getTransactionById(id: string): Promise<TransactionDetailResponse> {
+        try {
+            const transaction = await Transaction.findByPk(id, {
+                attributes: TRANSACTION_ATTRIBUTES,
+            });
+            if (!transaction) {
+                throw AppError.NotFound("Transaction not found", `No transaction found with ID "${id}".`);
+            }
+
+            // Include the refund history of the transaction, oldest first
+            const refunds = await Transaction.findAll({
+                attributes: TRANSACTION_ATTRIBUTES,
+                where: { parentTransactionId: id },
+                order: [['createdAt', 'ASC'], ['id', 'ASC']],
+            });
+
+            return {
+                ...this.toTransactionResponse(transaction),
+                refunds: refunds.map((refund) => this.toTransactionResponse(refund)),
+            };
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while fetching the transaction", error);
+        }
+    }
+
+    async updateTransactionStatus(id: string, status: TransactionStatusUpdate['status']): Promise<TransactionResponse> {
+        return this.changeStatus(id, status);
+    }
+
+    async cancelTransaction(id: string): Promise<TransactionResponse> {
+        return this.changeStatus(id, 'cancelled');
+    }
+
+    async refundTransaction(id: string, refundRequest: RefundRequest): Promise<TransactionResponse> {
+        try {
+            return await DatabaseConfig.withTransaction(async (t) => {
+                // Refund the given amount, or everything that is left to refund
+                const { payment, refundable } = await this.lockRefundablePayment(id, t);
+                const amount = refundRequest.amount !== undefined ? toMinorUnits(refundRequest.amount, payment.currency) : refundable;
+                if (amount === null) {
+                    throw AppError.BadRequest("Invalid refund amount", `The amount has more fraction digits than ${payment.currency} allows, or is too large.`);
+                }
+                this.checkRefundAmount(amount, refundable, payment.currency);
+
+                const consumer = await ConsumerService.lockConsumer(payment.consumerId, t);
+                const refund = await Transaction.create({
+                    type: 'refund',
+                    amount: amount.toString(),
+                    currency: payment.currency,
+                    status: 'pending', // Default status
+                    consumerId: payment.consumerId,
+                    parentTransactionId: payment.id,
+                }, { transaction: t });
+                await ConsumerService.debit(consumer, amount, refund.id, t);
+
+                // Hand the refund to the settlement worker once it has been committed, as createTransaction does
+                if (SettlementStream.isEnabled()) {
+                    DatabaseConfig.onCommit(() => SettlementStream.publish(refund.id));
+                }
+
+                return this.toTransactionResponse(refund);
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof ValidationError) {
+                const messages = error.errors.map((e: ValidationErrorItem) => e.message);
+                throw AppError.BadRequest("Validation errors occurred", messages);
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while refunding the transaction", error);
+        }
+    }
+
+    // Lock a payment for refunding, and get the amount (in minor units) that is left to refund
+    // The lock is held until the database transaction ends, so concurrent refunds of the payment are checked one after the other
+    private async lockRefundablePayment(id: string, t: SequelizeTransaction): Promise<{ payment: Transaction; refundable: bigint }> {
+        const payment = await Transaction.findByPk(id, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!payment) {
+            throw AppError.NotFound("Transaction not found", `No transaction found with ID "${id}".`);
+        }
+        if (payment.type !== 'payment') {
+            throw AppError.UnprocessableEntity("Transaction cannot be refunded", `Only payments can be refunded, not a ${payment.type}.`);
+        }
+        if (payment.status !== 'completed') {
+            throw AppError.UnprocessableEntity("Transaction cannot be refunded", `Only completed payments can be refunded, and this payment is ${payment.status}.`);
+        }
+
+        const refunds = await Transaction.findAll({
+            attributes: ['amount'],
+            where: { parentTransactionId: id, status: ACTIVE_REFUND_STATUSES },
+            transaction: t,
+        });
+        const refunded = refunds.reduce((total, refund) => total + BigInt(refund.amount), BigInt(0));
+        return { payment, refundable: BigInt(payment.amount) - refunded };
+    }
+
+    private checkRefundAmount(amount: bigint, refundable: bigint, currency: string): void {
+        if (refundable <= BigInt(0)) {
+            throw AppError.UnprocessableEntity("Transaction cannot be refunded", "The payment has already been fully refunded.");
+        }
+        if (amount <= BigInt(0)) {
+            throw AppError.UnprocessableEntity("Invalid refund", "The refund amount must be greater than zero.");
+        }
+        if (amount > refundable) {
+            throw AppError.UnprocessableEntity("Refund exceeds the refundable amount", `At most ${formatAmount(refundable, currency)} ${currency} can still be refunded.`);
+        }
+    }
+
+    // Move a transaction to another status, if its current status allows it
+    // The row is locked until the change is committed, so concurrent changes are checked one after the other
+    private async changeStatus(id: string, status: 'completed' | 'failed' | 'cancelled'): Promise<TransactionResponse> {
+        try {
+            return await DatabaseConfig.withTransaction(async (t) => {
+                const transaction = await Transaction.findByPk(id, { transaction: t, lock: t.LOCK.UPDATE });
+                if (!transaction) {
+                    throw AppError.NotFound("Transaction not found", `No transaction found with ID "${id}".`);
+                }
+
+                const allowedStatuses = STATUS_TRANSITIONS[transaction.status] || [];
+                if (allowedStatuses.length === 0) {
+                    throw AppError.Conflict("Invalid status transition", `The transaction is already ${transaction.status}, and its status can no longer change.`);
+                }
+                if (!allowedStatuses.includes(status)) {
+                    throw AppError.Conflict("Invalid status transition", `A ${transaction.status} transaction cannot become ${status}.`);
+                }
+
+                // A completed payment is added to the balance, and a failed or cancelled debit is given back
+                const isDebit = DEBIT_TYPES.includes(transaction.type);
+                if ((status === 'completed' && !isDebit) || (status !== 'completed' && isDebit)) {
+                    const consumer = await ConsumerService.lockConsumer(transaction.consumerId, t);
+                    await ConsumerService.credit(consumer, BigInt(transaction.amount), transaction.id, t);
+                }
+
+                await transaction.update({ status }, { transaction: t });
+                return this.toTransactionResponse(transaction);
+            });
+        } catch (error) {
+            if (error instanceof AppError) {
+                throw error; // Re-throw known AppErrors
+            }
+
+            if (error instanceof ValidationError) {
+                const messages = error.errors.map((e: ValidationErrorItem) => e.message);
+                throw AppError.BadRequest("Validation errors occurred", messages);
+            }
+
+            if (error instanceof DatabaseError) {
+                throw AppError.InternalServerError("Database error", `An error occurred while interacting with the database: ${error.message}`);
+            }
+
+            throw AppError.InternalServerError("An unexpected error occurred while changing the transaction status", error);
+        }
+    }
+
+    // Build the filters of a transaction list query, leaving out the ones that are not set
+    private buildFilters(query: TransactionListQuery): WhereOptions {
+        const where: WhereOptions = {};
+        if (query.type) {
+            Object.assign(where, { type: query.type });
+        }
+        if (query.status) {
+            Object.assign(where, { status: query.status });
+        }
+        if (query.consumerId) {
+            Object.assign(where, { consumerId: query.consumerId });
+        }
+        if (query.currency) {
+            Object.assign(where, { currency: query.currency });
+        }
+        // Amounts are compared in minor units of the currency, which the schema requires with an amount range
+        if (query.currency && (query.minAmount !== undefined || query.maxAmount !== undefined)) {
+            const currency = query.currency;
+            Object.assign(where, {
+                amount: {
+                    ...(query.minAmount !== undefined ? { [Op.gte]: String(toMinorUnits(query.minAmount, currency)) } : {}),
+                    ...(query.maxAmount !== undefined ? { [Op.lte]: String(toMinorUnits(query.maxAmount, currency)) } : {}),
+                },
+            });
+        }
+        if (query.createdFrom || query.createdTo) {
+            Object.assign(where, {
+                createdAt: {
+                    ...(query.createdFrom ? { [Op.gte]: query.createdFrom } : {}),
+                    ...(query.createdTo ? { [Op.lte]: query.createdTo } : {}),
+                },
+            });
+        }
+        return where;
+    }
+
+    private toTransactionResponse(transaction: Transaction): TransactionResponse {
+        return {
+            id: transaction.id,
+            type: transaction.type,
+            amount: formatAmount(transaction.amount, transaction.currency),
+            currency: transaction.currency,
+            status: transaction.status,
+            consumerId: transaction.consumerId,
+            ...(transaction.parentTransactionId ? { parentTransactionId: transaction.parentTransactionId } : {}),
+            createdAt: transaction.createdAt,
+            updatedAt: transaction.updatedAt,
+        };
+    }
 }
 
 export default new TransactionService();
@@ -0,0 +1,94 @@
+import { IdempotencyLookupStats, IdempotencyRecord, IdempotencyReservation, IdempotencyStore, IdempotencyWriteOptions } from "../types/idempotency-store.interface";
+
+/**
+ * In-memory implementation of the IdempotencyStore.
+ * Records and reservations are kept in process memory with their expiry times,
+ * which makes it suitable for tests and single-instance setups without external services.
+ */
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+class MemoryIdempotencyStore implements IdempotencyStore {
+    public readonly name = 'memory';
+    private records: Map<string, Expiring<IdempotencyRecord>> = new Map();
+    private reservations: Map<string, Expiring<string>> = new Map();
+    private unknownOutcomes: Map<string, string> = new Map(); // Token of the reservation whose outcome is unknown
+
+    private getLive<T>(entries: Map<string, Expiring<T>>, key: string): T | null {
+        const entry = entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            entries.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    public async get(key: string, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null> {
+        const record = this.getLive(this.records, key);
+        if (record && stats) {
+            stats.servedBy = this.name;
+        }
+        return record;
+    }
+
+    public async reserve(key: string, reservation: IdempotencyReservation): Promise<boolean> {
+        const currentToken = this.getLive(this.reservations, key);
+        if (currentToken && currentToken !== reservation.token) {
+            return false;
+        }
+
+        this.reservations.set(key, {
+            value: reservation.token,
+            expiresAt: Date.now() + reservation.ttlSeconds * 1000,
+        });
+        return true;
+    }
+
+    public async complete(key: string, record: IdempotencyRecord, ttlSeconds: number, options?: IdempotencyWriteOptions): Promise<void> {
+        this.records.set(key, {
+            value: record,
+            expiresAt: Date.now() + ttlSeconds * 1000,
+        });
+        if (options?.afterCommit) {
+            await options.afterCommit();
+        }
+    }
+
+    public async release(key: string, token: string): Promise<void> {
+        if (this.getLive(this.reservations, key) === token) {
+            this.reservations.delete(key);
+        }
+        if (this.unknownOutcomes.get(key) === token) {
+            this.unknownOutcomes.delete(key);
+        }
+    }
+
+    public async purge(key: string, options?: IdempotencyWriteOptions): Promise<void> {
+        this.records.delete(key);
+        this.reservations.delete(key);
+        this.unknownOutcomes.delete(key);
+        if (options?.afterCommit) {
+            await options.afterCommit();
+        }
+    }
+
+    public async markOutcomeUnknown(key: string, token: string): Promise<void> {
+        if (this.getLive(this.reservations, key) === token) {
+            this.unknownOutcomes.set(key, token);
+        }
+    }
+
+    public async isOutcomeUnknown(key: string): Promise<boolean> {
+        // The flag only counts while the reservation it was set on is still held
+        const token = this.getLive(this.reservations, key);
+        return token !== null && this.unknownOutcomes.get(key) === token;
+    }
+}
+
+export default MemoryIdempotencyStore;
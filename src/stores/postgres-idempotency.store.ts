@@ -0,0 +1,202 @@
+import { Op, Transaction, UniqueConstraintError } from "sequelize";
+
+import DatabaseConfig from "../config/db.config";
+import { IdempotencyMeta } from "../models/idempotency-meta.model";
+import { IdempotencyOutbox } from "../models/idempotency-outbox.model";
+import PayloadCodec from "../utils/payload-codec.util";
+import { IdempotencyScope, parseScopedKey } from "../utils/idempotency-scope.util";
+import { IdempotencyLookupStats, IdempotencyRecord, IdempotencyReservation, IdempotencyStore, IdempotencyWriteOptions } from "../types/idempotency-store.interface";
+
+/**
+ * Postgres implementation of the IdempotencyStore, backed by the idempotency_meta table.
+ * A reservation is a row with status "processing" holding the lease token and its expiry,
+ * relying on the unique index on the key and its scope to make the reservation atomic.
+ * Store keys are scoped keys, split into the principal, method, route and key columns.
+ * A stale reservation (whose lease has expired) can be taken over by another request.
+ * A reservation whose outcome is unknown (its handler missed its deadline) has the status "unknown" instead.
+ * With the outbox enabled, every change to a completed record also writes an idempotency_outbox entry
+ * in the same database transaction, which is marked as processed once the afterCommit callback
+ * (e.g. the cache update) has succeeded, so the reconciler can repair caches after a crash.
+ * Response payloads are stored encoded by the PayloadCodec (compressed and/or encrypted, depending on its configuration).
+ */
+// Statuses of a row holding a reservation
+const RESERVATION_STATUSES = ['processing', 'unknown'];
+
+class PostgresIdempotencyStore implements IdempotencyStore {
+    public readonly name = 'postgres';
+    private useOutbox: boolean;
+
+    constructor(options: { outbox?: boolean } = {}) {
+        this.useOutbox = options.outbox || false;
+    }
+
+    // Split a scoped key into the columns identifying its row
+    private getScope(key: string): IdempotencyScope {
+        const scope = parseScopedKey(key);
+        if (!scope) {
+            throw new Error(`Invalid scoped idempotency key "${key}"`);
+        }
+        return scope;
+    }
+
+    // Run a change to idempotency_meta in a database transaction, together with its outbox entry,
+    // and run the afterCommit callback only once the transaction has been committed
+    private async writeWithOutbox(key: string, operation: "upsert" | "delete", write: (transaction: Transaction) => Promise<void>, options?: IdempotencyWriteOptions): Promise<void> {
+        await DatabaseConfig.withTransaction(async (t) => {
+            await write(t);
+
+            if (this.useOutbox) {
+                const outboxEntry = await IdempotencyOutbox.create({ key, operation }, { transaction: t });
+                DatabaseConfig.onCommit(async () => {
+                    if (options?.afterCommit) {
+                        await options.afterCommit();
+                    }
+                    await outboxEntry.update({ processedAt: new Date() });
+                });
+            } else if (options?.afterCommit) {
+                DatabaseConfig.onCommit(options.afterCommit);
+            }
+        });
+    }
+
+    public async get(key: string, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null> {
+        // Keys that are not scoped (e.g. legacy cache entries checked by the reconciler) have no row
+        const scope = parseScopedKey(key);
+        if (!scope) {
+            return null;
+        }
+
+        const idempotencyMeta = await IdempotencyMeta.findOne({
+            where: { ...scope, status: 'completed' },
+        });
+        if (!idempotencyMeta) {
+            return null;
+        }
+
+        if (stats) {
+            stats.servedBy = this.name;
+        }
+        return {
+            key,
+            bodyHash: idempotencyMeta.bodyHash,
+            fingerprintFields: idempotencyMeta.fingerprintFields || undefined,
+            responsePayload: await PayloadCodec.decode(idempotencyMeta.responsePayload as string, key),
+            statusCode: idempotencyMeta.statusCode,
+            responseHeaders: idempotencyMeta.responseHeaders,
+            firstRequestId: idempotencyMeta.firstRequestId || undefined,
+            clientIp: idempotencyMeta.clientIp || undefined,
+            userAgent: idempotencyMeta.userAgent || undefined,
+            createdAt: idempotencyMeta.createdAt,
+            expiredAt: idempotencyMeta.expiredAt,
+        };
+    }
+
+    public async reserve(key: string, reservation: IdempotencyReservation): Promise<boolean> {
+        const scope = this.getScope(key);
+        const lockedUntil = new Date(Date.now() + reservation.ttlSeconds * 1000);
+
+        try {
+            await IdempotencyMeta.create({
+                ...scope,
+                bodyHash: reservation.bodyHash,
+                status: 'processing',
+                lockToken: reservation.token,
+                lockedUntil,
+            });
+            return true;
+        } catch (error) {
+            if (!(error instanceof UniqueConstraintError)) {
+                throw error;
+            }
+        }
+
+        // The row already exists, so renew our own reservation, keeping its status (its outcome may have become unknown)
+        const [renewedRows] = await IdempotencyMeta.update({ lockedUntil }, {
+            where: {
+                ...scope,
+                status: RESERVATION_STATUSES,
+                lockToken: reservation.token,
+            },
+        });
+        if (renewedRows > 0) {
+            return true;
+        }
+
+        // Or take over a stale reservation, whose holder stopped renewing it
+        const [affectedRows] = await IdempotencyMeta.update({
+            bodyHash: reservation.bodyHash,
+            status: 'processing',
+            lockToken: reservation.token,
+            lockedUntil,
+        }, {
+            where: {
+                ...scope,
+                status: RESERVATION_STATUSES,
+                lockedUntil: { [Op.lt]: new Date() },
+            },
+        });
+        return affectedRows > 0;
+    }
+
+    public async complete(key: string, record: IdempotencyRecord, ttlSeconds: number, options?: IdempotencyWriteOptions): Promise<void> {
+        const scope = this.getScope(key);
+        const responsePayload = await PayloadCodec.encode(record.responsePayload, key);
+        await this.writeWithOutbox(key, 'upsert', async (transaction) => {
+            const values = {
+                bodyHash: record.bodyHash,
+                fingerprintFields: record.fingerprintFields || null,
+                status: 'completed',
+                responsePayload,
+                statusCode: record.statusCode,
+                responseHeaders: record.responseHeaders,
+                firstRequestId: record.firstRequestId || null,
+                clientIp: record.clientIp || null,
+                userAgent: record.userAgent || null,
+                lockToken: null,
+                lockedUntil: null,
+                expiredAt: record.expiredAt || new Date(Date.now() + ttlSeconds * 1000),
+            } as const;
+
+            // Complete the reservation row, or create the row if there is none (e.g. when backfilling)
+            const [affectedRows] = await IdempotencyMeta.update(values, {
+                where: { ...scope },
+                transaction,
+            });
+            if (affectedRows === 0) {
+                await IdempotencyMeta.create({ ...scope, ...values }, { transaction });
+            }
+        }, options);
+    }
+
+    public async release(key: string, token: string): Promise<void> {
+        await IdempotencyMeta.destroy({
+            where: { ...this.getScope(key), status: RESERVATION_STATUSES, lockToken: token },
+        });
+    }
+
+    public async purge(key: string, options?: IdempotencyWriteOptions): Promise<void> {
+        const scope = this.getScope(key);
+        await this.writeWithOutbox(key, 'delete', async (transaction) => {
+            await IdempotencyMeta.destroy({
+                where: { ...scope },
+                transaction,
+            });
+        }, options);
+    }
+
+    public async markOutcomeUnknown(key: string, token: string): Promise<void> {
+        await IdempotencyMeta.update({ status: 'unknown' }, {
+            where: { ...this.getScope(key), status: 'processing', lockToken: token },
+        });
+    }
+
+    public async isOutcomeUnknown(key: string): Promise<boolean> {
+        // A reservation whose lease has expired is stale, and can be taken over by a retry
+        const count = await IdempotencyMeta.count({
+            where: { ...this.getScope(key), status: 'unknown', lockedUntil: { [Op.gte]: new Date() } },
+        });
+        return count > 0;
+    }
+}
+
+export default PostgresIdempotencyStore;
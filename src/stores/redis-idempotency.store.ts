@@ -0,0 +1,141 @@
+import "dotenv/config";
+
+import PayloadCodec from "../utils/payload-codec.util";
+import RedisUtil from "../utils/redis.util";
+import { IdempotencyLookupStats, IdempotencyRecord, IdempotencyReservation, IdempotencyStore, IdempotencyWriteOptions } from "../types/idempotency-store.interface";
+
+/**
+ * Redis implementation of the IdempotencyStore.
+ * Completed records are cached under `${prefix}:${key}` with their TTL,
+ * and reservations are taken with SET NX under `${prefix}:lock:${key}` holding the lease token.
+ * Usage counters (replays and conflicts) are kept in a hash under `${prefix}:usage:${key}` until they are flushed to the database.
+ * A reservation whose outcome is unknown is flagged under `${prefix}:unknown:${key}` with its lease token,
+ * so the flag no longer counts once that reservation is gone.
+ * The SCAN cursors of the background jobs going through the records are kept under `${prefix}:cursor:${job}`.
+ * Keys are scoped keys, which never start with "lock", "usage", "unknown" or "cursor", so records, locks, counters, flags and cursors cannot be confused.
+ * Response payloads are stored encoded by the PayloadCodec (compressed and/or encrypted, depending on its configuration).
+ */
+class RedisIdempotencyStore implements IdempotencyStore {
+    public readonly name = 'redis';
+    private prefix: string;
+
+    constructor() {
+        this.prefix = process.env.IDEMPOTENCY_PREFIX || 'idempotency';
+    }
+
+    public getRecordKey(key: string): string {
+        return `${this.prefix}:${key}`;
+    }
+
+    public getLockKey(key: string): string {
+        return `${this.prefix}:lock:${key}`;
+    }
+
+    // Redis glob pattern matching the record keys of the scoped keys matching the given pattern (all of them by default)
+    public getRecordKeyPattern(scopedKeyPattern: string = '*'): string {
+        return `${this.prefix}:${scopedKeyPattern}`;
+    }
+
+    public getLockKeyPattern(): string {
+        return `${this.prefix}:lock:*`;
+    }
+
+    // Extract the idempotency key from a Redis lock key, or null if it is not a lock key
+    public parseLockKey(redisKey: string): string | null {
+        if (!redisKey.startsWith(`${this.prefix}:lock:`)) {
+            return null;
+        }
+        return redisKey.slice(`${this.prefix}:lock:`.length);
+    }
+
+    public getUnknownOutcomeKey(key: string): string {
+        return `${this.prefix}:unknown:${key}`;
+    }
+
+    // Usage counters of a key, and the set of keys whose counters are waiting to be flushed to the database
+    public getUsageKey(key: string): string {
+        return `${this.prefix}:usage:${key}`;
+    }
+
+    public getPendingUsageKey(): string {
+        return `${this.prefix}:usage-pending`;
+    }
+
+    public getScanCursorKey(job: string): string {
+        return `${this.prefix}:cursor:${job}`;
+    }
+
+    // Extract the idempotency key from a Redis key, or null if it is not a record key (e.g. a lock, usage counters, a flag or a cursor)
+    public parseRecordKey(redisKey: string): string | null {
+        const reservedPrefixes = [`${this.prefix}:lock:`, `${this.prefix}:usage`, `${this.prefix}:unknown:`, `${this.prefix}:cursor:`];
+        if (!redisKey.startsWith(`${this.prefix}:`) || reservedPrefixes.some((reservedPrefix) => redisKey.startsWith(reservedPrefix))) {
+            return null;
+        }
+        return redisKey.slice(this.prefix.length + 1);
+    }
+
+    public async get(key: string, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null> {
+        const record = await RedisUtil.get<IdempotencyRecord>(this.getRecordKey(key));
+        if (stats) {
+            stats.cacheUsed = true;
+            stats.servedBy = record ? this.name : stats.servedBy;
+        }
+        if (!record) {
+            return null;
+        }
+        return { ...record, responsePayload: await PayloadCodec.decode(record.responsePayload, key) };
+    }
+
+    public async reserve(key: string, reservation: IdempotencyReservation): Promise<boolean> {
+        const lockKey = this.getLockKey(key);
+        if (await RedisUtil.setIfNotExists(lockKey, reservation.token, reservation.ttlSeconds)) {
+            return true;
+        }
+
+        // The key is already reserved, which is only fine if it is our own reservation being renewed
+        return RedisUtil.expireIfEquals(lockKey, reservation.token, reservation.ttlSeconds);
+    }
+
+    public async complete(key: string, record: IdempotencyRecord, ttlSeconds: number, options?: IdempotencyWriteOptions): Promise<void> {
+        const responsePayload = await PayloadCodec.encode(record.responsePayload, key);
+        await RedisUtil.set(this.getRecordKey(key), { ...record, responsePayload }, ttlSeconds);
+        if (options?.afterCommit) {
+            await options.afterCommit();
+        }
+    }
+
+    public async release(key: string, token: string): Promise<void> {
+        await RedisUtil.delIfEquals(this.getLockKey(key), token);
+        await RedisUtil.delIfEquals(this.getUnknownOutcomeKey(key), token);
+    }
+
+    public async purge(key: string, options?: IdempotencyWriteOptions): Promise<void> {
+        for (const redisKey of [this.getRecordKey(key), this.getLockKey(key), this.getUnknownOutcomeKey(key)]) {
+            try {
+                await RedisUtil.del(redisKey);
+            } catch {
+                // RedisUtil.del throws when the key does not exist, which is fine when purging
+            }
+        }
+        if (options?.afterCommit) {
+            await options.afterCommit();
+        }
+    }
+
+    public async markOutcomeUnknown(key: string, token: string, ttlSeconds: number): Promise<void> {
+        if (await RedisUtil.get<string>(this.getLockKey(key)) === token) {
+            await RedisUtil.set(this.getUnknownOutcomeKey(key), token, ttlSeconds);
+        }
+    }
+
+    public async isOutcomeUnknown(key: string): Promise<boolean> {
+        // The flag only counts while the reservation it was set on is still held
+        const [flaggedToken, token] = await Promise.all([
+            RedisUtil.get<string>(this.getUnknownOutcomeKey(key)),
+            RedisUtil.get<string>(this.getLockKey(key)),
+        ]);
+        return flaggedToken !== null && flaggedToken === token;
+    }
+}
+
+export default RedisIdempotencyStore;
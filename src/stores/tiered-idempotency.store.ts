@@ -0,0 +1,139 @@
+import AppError from "../exceptions/app-error.exception";
+import Logger from "../utils/logger.util";
+import { IdempotencyLookupStats, IdempotencyRecord, IdempotencyReservation, IdempotencyStore, IdempotencyWriteOptions } from "../types/idempotency-store.interface";
+
+/**
+ * Tiered read-through implementation of the IdempotencyStore.
+ * It composes several stores ordered from fastest (e.g. Redis) to most durable (e.g. Postgres).
+ * Every tier but the last is a cache: when a cache tier is unavailable (ServiceUnavailable),
+ * it is skipped and the operation falls through to the durable tier instead of failing the request.
+ * - get reads the tiers in order and backfills the faster tiers on a hit in a slower one
+ * - reserve must succeed in every available tier, otherwise the reservations already taken are released
+ * - complete and purge change the durable tier first, and update the cache tiers only after its commit,
+ *   so a cache never holds a record that was not durably stored; a failed cache update is left
+ *   to the durable tier's outbox (if any) to be repaired later
+ * - release and markOutcomeUnknown apply to every available tier
+ * - isOutcomeUnknown is true if any available tier holds the flag
+ */
+class TieredIdempotencyStore implements IdempotencyStore {
+    public readonly name = 'tiered';
+    private tiers: IdempotencyStore[];
+
+    constructor(tiers: IdempotencyStore[]) {
+        if (tiers.length === 0) {
+            throw new Error("TieredIdempotencyStore requires at least one store");
+        }
+        this.tiers = tiers;
+    }
+
+    private isCacheTier(tier: IdempotencyStore): boolean {
+        return tier !== this.tiers[this.tiers.length - 1];
+    }
+
+    // Run an operation against a tier, degrading gracefully if a cache tier is unavailable
+    // Returns undefined when the tier was skipped
+    private async runOnTier<T>(tier: IdempotencyStore, key: string, operation: string, fn: () => Promise<T>): Promise<T | undefined> {
+        try {
+            return await fn();
+        } catch (error) {
+            if (this.isCacheTier(tier) && error instanceof AppError && error.statusCode === 503) {
+                Logger.warn(`Idempotency ${operation} for key "${key}" bypassed the ${tier.name} store: ${error.message}`);
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    public async get(key: string, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null> {
+        for (let i = 0; i < this.tiers.length; i++) {
+            const tier = this.tiers[i];
+            const record = await this.runOnTier(tier, key, 'lookup', () => tier.get(key, stats));
+            if (!record) {
+                continue;
+            }
+
+            // Backfill the faster tiers that missed, for the remaining lifetime of the record
+            const remainingSeconds = record.expiredAt ? Math.floor((new Date(record.expiredAt).getTime() - Date.now()) / 1000) : 0;
+            if (remainingSeconds > 0) {
+                for (const fasterTier of this.tiers.slice(0, i)) {
+                    try {
+                        await fasterTier.complete(key, record, remainingSeconds);
+                    } catch (error) {
+                        Logger.warn(`Failed to backfill idempotency record for key "${key}": ${error}`);
+                    }
+                }
+            }
+            return record;
+        }
+        return null;
+    }
+
+    public async reserve(key: string, reservation: IdempotencyReservation): Promise<boolean> {
+        const reservedTiers: IdempotencyStore[] = [];
+        for (const tier of this.tiers) {
+            const reserved = await this.runOnTier(tier, key, 'reservation', () => tier.reserve(key, reservation));
+            if (reserved === false) {
+                for (const reservedTier of reservedTiers) {
+                    await this.runOnTier(reservedTier, key, 'release', () => reservedTier.release(key, reservation.token));
+                }
+                return false;
+            }
+
+            if (reserved) {
+                reservedTiers.push(tier);
+            }
+        }
+        return true;
+    }
+
+    public async complete(key: string, record: IdempotencyRecord, ttlSeconds: number, options?: IdempotencyWriteOptions): Promise<void> {
+        const durableTier = this.tiers[this.tiers.length - 1];
+        await durableTier.complete(key, record, ttlSeconds, {
+            afterCommit: async () => {
+                for (const cacheTier of this.tiers.slice(0, -1).reverse()) {
+                    await cacheTier.complete(key, record, ttlSeconds);
+                }
+                if (options?.afterCommit) {
+                    await options.afterCommit();
+                }
+            },
+        });
+    }
+
+    public async release(key: string, token: string): Promise<void> {
+        for (const tier of this.tiers) {
+            await this.runOnTier(tier, key, 'release', () => tier.release(key, token));
+        }
+    }
+
+    public async purge(key: string, options?: IdempotencyWriteOptions): Promise<void> {
+        const durableTier = this.tiers[this.tiers.length - 1];
+        await durableTier.purge(key, {
+            afterCommit: async () => {
+                for (const cacheTier of this.tiers.slice(0, -1)) {
+                    await cacheTier.purge(key);
+                }
+                if (options?.afterCommit) {
+                    await options.afterCommit();
+                }
+            },
+        });
+    }
+
+    public async markOutcomeUnknown(key: string, token: string, ttlSeconds: number): Promise<void> {
+        for (const tier of this.tiers) {
+            await this.runOnTier(tier, key, 'outcome flag', () => tier.markOutcomeUnknown(key, token, ttlSeconds));
+        }
+    }
+
+    public async isOutcomeUnknown(key: string): Promise<boolean> {
+        for (const tier of this.tiers) {
+            if (await this.runOnTier(tier, key, 'outcome check', () => tier.isOutcomeUnknown(key))) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
+
+export default TieredIdempotencyStore;
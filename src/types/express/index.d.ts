@@ -1,4 +1,4 @@
-import { JwtPayload } from "../idempotency.interface";
+import { IdempotencyInterface } from "../idempotency.interface";
 
 /**
  * Extends the Express Request interface to include idempotency metadata.
@@ -0,0 +1,70 @@
+/**
+ * IdempotencyRecord defines the stored outcome of a processed idempotent request.
+ * It includes the idempotency key, the request fingerprint (bodyHash) with the fields it was computed from
+ * (absent for legacy records that only hashed the raw body), the original response
+ * (status code, body and replayable headers as JSON), the request that produced it, and its expiry.
+ */
+export interface IdempotencyRecord {
+    key: string;
+    bodyHash: string;
+    fingerprintFields?: string;
+    responsePayload: string;
+    statusCode?: number;
+    responseHeaders?: string;
+    firstRequestId?: string;
+    clientIp?: string;
+    userAgent?: string;
+    createdAt?: Date;
+    expiredAt?: Date;
+}
+
+/**
+ * IdempotencyReservation defines an in-flight reservation of an idempotency key.
+ * The token identifies the owner of the reservation, and the TTL is the lease duration.
+ */
+export interface IdempotencyReservation {
+    token: string;
+    bodyHash: string;
+    ttlSeconds: number;
+}
+
+/**
+ * IdempotencyLookupStats describes how a lookup was served.
+ * cacheUsed tells whether a cache tier (Redis) was consulted, or bypassed because it was unavailable,
+ * and servedBy names the store that held the record, if any.
+ */
+export interface IdempotencyLookupStats {
+    cacheUsed: boolean;
+    servedBy?: string;
+}
+
+/**
+ * IdempotencyWriteOptions defines options for operations that change stored records.
+ * afterCommit runs once the change is durable: after the database commit for transactional stores,
+ * or right after the write for the others. It is used to update caches only after a successful commit.
+ */
+export interface IdempotencyWriteOptions {
+    afterCommit?: () => Promise<void>;
+}
+
+/**
+ * IdempotencyStore defines the operations a backend must support to store idempotency state.
+ * - get: return the completed record for a key, or null if there is none, and report how it was served
+ * - reserve: atomically reserve a key for processing; reserving again with the same token renews the lease
+ * - complete: store the completed record for a key
+ * - release: drop the reservation held with the given token, if it is still held
+ * - purge: delete the record and any reservation for a key
+ * - markOutcomeUnknown: flag the reservation held with the given token as having an unknown outcome
+ *   (its handler missed its deadline, but may still complete); the flag goes with the reservation
+ * - isOutcomeUnknown: whether the key is reserved by a request whose outcome is unknown
+ */
+export interface IdempotencyStore {
+    readonly name: string;
+    get(key: string, stats?: IdempotencyLookupStats): Promise<IdempotencyRecord | null>;
+    reserve(key: string, reservation: IdempotencyReservation): Promise<boolean>;
+    complete(key: string, record: IdempotencyRecord, ttlSeconds: number, options?: IdempotencyWriteOptions): Promise<void>;
+    release(key: string, token: string): Promise<void>;
+    purge(key: string, options?: IdempotencyWriteOptions): Promise<void>;
+    markOutcomeUnknown(key: string, token: string, ttlSeconds: number): Promise<void>;
+    isOutcomeUnknown(key: string): Promise<boolean>;
+}
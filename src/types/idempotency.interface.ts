@@ -1,8 +1,64 @@
+import ms from "ms";
+
+import AppError from "../exceptions/app-error.exception";
+import { IdempotencyScopeResolver } from "../utils/idempotency-scope.util";
+
 /**
  * IdempotencyInterface defines the structure for idempotency metadata.
- * It includes the idempotency key and a hash of the request body.
+ * It includes the idempotency key as sent by the client and as scoped by principal, method and route, the request fingerprint (bodyHash) and the fields it was computed from,
+ * and whether the cache was used to check the key (false when it was bypassed because it was unavailable).
  */
 export interface IdempotencyInterface {
     key: string;
+    scopedKey: string;
     bodyHash: string;
-}
\ No newline at end of file
+    fingerprintFields?: string;
+    cacheUsed?: boolean;
+}
+
+/**
+ * IdempotencyKeyFormat defines the format an idempotency key must have:
+ * a UUID, a ULID, or a free-form string of at most maxLength characters.
+ */
+export type IdempotencyKeyFormat = 'uuid' | 'ulid' | { maxLength: number };
+
+/**
+ * IdempotencyOutcome describes how an idempotent request ended: the status code of its response,
+ * and the AppError it failed with, if any (as set by the error handler in res.locals.error).
+ * An outcome policy decides from it whether the response is stored for replay, or the key is released.
+ */
+export interface IdempotencyOutcome {
+    statusCode: number;
+    error?: AppError;
+}
+
+export type IdempotencyOutcomeAction = 'store' | 'release';
+
+export type IdempotencyOutcomePolicy = (outcome: IdempotencyOutcome) => IdempotencyOutcomeAction;
+
+/**
+ * IdempotencyOptions defines the idempotency policy of a route.
+ * - ttl: how long the response is kept for replay, as an ms string (e.g. "24h") or in milliseconds
+ *   (defaults to IDEMPOTENCY_TTL_HOURS)
+ * - required: whether requests without a key are rejected, or processed without idempotency (defaults to true)
+ * - methods: the HTTP methods accepted (defaults to POST, PUT and PATCH)
+ * - scope: resolves the principal keys are scoped by (defaults to the authenticated principal in res.locals.principal)
+ * - headerName: the header the key is read from (defaults to IDEMPOTENCY_HEADER_NAME)
+ * - keyFormat: the format the key must have (defaults to free-form up to 255 characters)
+ * - cacheErrors: whether deterministic client error (4xx) responses are replayed too, instead of only successful ones
+ *   (defaults to false); a shorthand for the storeDeterministicOutcomes policy
+ * - outcomePolicy: decides which outcomes are stored and which release the key (overrides cacheErrors)
+ * - timeout: the handler deadline, as an ms string (e.g. "10s") or in milliseconds, after which the request fails with 504
+ *   and the outcome of the key is unknown until the handler settles (defaults to IDEMPOTENCY_HANDLER_TIMEOUT_MS, or none)
+ */
+export interface IdempotencyOptions {
+    ttl?: ms.StringValue | number;
+    required?: boolean;
+    methods?: string[];
+    scope?: IdempotencyScopeResolver;
+    headerName?: string;
+    keyFormat?: IdempotencyKeyFormat;
+    cacheErrors?: boolean;
+    outcomePolicy?: IdempotencyOutcomePolicy;
+    timeout?: ms.StringValue | number;
+}
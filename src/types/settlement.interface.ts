@@ -0,0 +1,33 @@
+/**
+ * SettlementRequest defines a pending transaction handed to a settlement processor.
+ * The attempt starts at 1, and grows each time the settlement is retried after a transient error.
+ */
+export interface SettlementRequest {
+    transactionId: string;
+    type: string;
+    amount: string; // Exact decimal amount, with the fraction digits of its currency
+    currency: string;
+    consumerId: string;
+    attempt: number;
+}
+
+/**
+ * SettlementResult defines the final outcome of a settlement: the transaction is moved to this status.
+ * A reason can be given for a failed settlement, and is logged.
+ */
+export interface SettlementResult {
+    status: 'completed' | 'failed';
+    reason?: string;
+}
+
+/**
+ * SettlementProcessor defines the backend that settles transactions (e.g. a payment provider).
+ * - settle: settle a transaction, resolving with its final outcome, or throwing on a transient error
+ *   (e.g. a timeout), in which case the settlement is retried with backoff
+ * The same transaction may be submitted again after a crash or a transient error,
+ * so a processor must settle it idempotently, using the transaction ID as its idempotency key.
+ */
+export interface SettlementProcessor {
+    readonly name: string;
+    settle(request: SettlementRequest): Promise<SettlementResult>;
+}
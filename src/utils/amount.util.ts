@@ -0,0 +1,66 @@
+/**
+ * Utility functions to convert amounts between their decimal form and integer minor units.
+ * Amounts are stored as BIGINT minor units of their ISO 4217 currency (cents for USD, yen for JPY, fils for KWD),
+ * which the database returns as strings; all arithmetic is done on BigInt minor units, so it is exact.
+ * Amounts are received as decimal strings (or JSON numbers, taken by their shortest decimal form),
+ * and returned as decimal strings with exactly the number of fraction digits of their currency.
+ */
+
+// Number of fraction digits (ISO 4217 minor unit exponent) of each supported currency
+export const CURRENCY_EXPONENTS: Record<string, number> = {
+    AED: 2, AUD: 2, BHD: 3, BRL: 2, CAD: 2, CHF: 2, CLP: 0, CNY: 2, CZK: 2, DKK: 2,
+    EUR: 2, GBP: 2, HKD: 2, HUF: 2, IDR: 2, ILS: 2, INR: 2, ISK: 0, JOD: 3, JPY: 0,
+    KES: 2, KRW: 0, KWD: 3, MXN: 2, MYR: 2, NGN: 2, NOK: 2, NZD: 2, OMR: 3, PHP: 2,
+    PLN: 2, SAR: 2, SEK: 2, SGD: 2, THB: 2, TND: 3, TRY: 2, TWD: 2, UGX: 0, USD: 2,
+    VND: 0, XAF: 0, XOF: 0, ZAR: 2,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_EXPONENTS) as [string, ...string[]];
+
+// Largest amount a BIGINT column holds
+const MAX_MINOR_UNITS = BigInt('9223372036854775807');
+
+const AMOUNT_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+// Check that an amount is a plain non-negative decimal, before its currency is known
+export const isDecimalAmount = (amount: string | number): boolean => {
+    return AMOUNT_PATTERN.test(typeof amount === 'number' ? String(amount) : amount);
+};
+
+const getExponent = (currency: string): number => {
+    const exponent = CURRENCY_EXPONENTS[currency];
+    if (exponent === undefined) {
+        throw new Error(`Unsupported currency "${currency}"`);
+    }
+    return exponent;
+};
+
+// Convert a non-negative decimal amount to minor units of its currency
+// Returns null if the amount is not a plain decimal, has more (non-zero) fraction digits than the currency, or is too large
+export const toMinorUnits = (amount: string | number, currency: string): bigint | null => {
+    const match = AMOUNT_PATTERN.exec(typeof amount === 'number' ? String(amount) : amount);
+    if (!match) {
+        return null;
+    }
+
+    const exponent = getExponent(currency);
+    const fraction = match[2] || '';
+    if (/[^0]/.test(fraction.slice(exponent))) {
+        return null;
+    }
+
+    const minorUnits = BigInt(match[1] + fraction.slice(0, exponent).padEnd(exponent, '0'));
+    return minorUnits <= MAX_MINOR_UNITS ? minorUnits : null;
+};
+
+// Format minor units (a BigInt, or the BIGINT string returned by the database) as an exact decimal string
+export const formatAmount = (minorUnits: bigint | string, currency: string): string => {
+    const exponent = getExponent(currency);
+    const value = BigInt(minorUnits);
+    const digits = (value < BigInt(0) ? -value : value).toString().padStart(exponent + 1, '0');
+    const sign = value < BigInt(0) ? '-' : '';
+    if (exponent === 0) {
+        return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+};
@@ -0,0 +1,184 @@
+import "dotenv/config";
+import { Request, Response } from "express";
+
+import AppError from "../exceptions/app-error.exception";
+import FormatResponse from "./response.util";
+import IdempotencyLock from "./idempotency-lock.util";
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import IdempotencyUsage from "./idempotency-usage.util";
+import Logger from "./logger.util";
+import { storeDeterministicOutcomes } from "./idempotency-outcome.util";
+import { getIdempotencyScope, IdempotencyScopeResolver, resolveAuthenticatedPrincipal, toScopedKey } from "./idempotency-scope.util";
+import { computeRequestFingerprint, EmbeddedRequest, getFingerprintFields, RequestFingerprint } from "./request-fingerprint.util";
+import { IdempotencyRecord } from "../types/idempotency-store.interface";
+
+/**
+ * Utility class for the idempotency of the items of a batch request, each of which carries its own idempotency key.
+ * An item is scoped and fingerprinted as if it had been sent on its own to the route it targets
+ * (e.g. POST /api/transactions), with the principal resolver of that route, and its outcome is stored in the same idempotency store, so an item can be retried
+ * on its own or in another batch with the same key, and replays the response of the single request (and vice versa).
+ * Like the idempotency middleware, an item is reserved before it is processed, and its deterministic outcomes
+ * (successes and non-retryable client errors) are stored once it has been processed.
+ * The batch itself is made idempotent under its own key by the idempotency middleware.
+ */
+
+// The route the items of a batch target, with the principal resolver it scopes its keys with
+// (defaults to the authenticated principal, like the idempotency middleware)
+export interface BatchItemTarget extends Omit<EmbeddedRequest, 'body'> {
+    scope?: IdempotencyScopeResolver;
+}
+
+// An item reserved for processing, until it is settled or released
+export interface BatchItemLease {
+    key: string;
+    scopedKey: string;
+    fingerprint: RequestFingerprint;
+    token: string;
+}
+
+// The outcome of an item, as the route it targets would have responded
+export interface BatchItemResponse {
+    statusCode: number;
+    message: string;
+    data?: unknown;
+    error?: unknown;
+}
+
+export type BatchItemClaim =
+    | { status: 'replayed'; response: BatchItemResponse }
+    | { status: 'conflict'; error: AppError }
+    | { status: 'reserved'; lease: BatchItemLease };
+
+class BatchIdempotency {
+    private req: Request;
+    private res: Response;
+    private target: Omit<EmbeddedRequest, 'body'>;
+    private resolvePrincipal: IdempotencyScopeResolver;
+    private ttlSeconds: number;
+
+    constructor(req: Request, res: Response, target: BatchItemTarget) {
+        this.req = req;
+        this.res = res;
+        this.target = { method: target.method, route: target.route };
+        this.resolvePrincipal = target.scope || resolveAuthenticatedPrincipal;
+        this.ttlSeconds = (process.env.IDEMPOTENCY_TTL_HOURS ? parseInt(process.env.IDEMPOTENCY_TTL_HOURS) : 1) * 3600; // Default TTL of 1 hour
+    }
+
+    /**
+     * Claim the idempotency key of an item before it is processed.
+     * Returns the stored response if the item has already been processed with the same request,
+     * a conflict if the key was used for another request, has expired or is in use, or the lease of the reserved key.
+     */
+    public async claim(key: string, body: unknown): Promise<BatchItemClaim> {
+        const scopedKey = toScopedKey(getIdempotencyScope(this.req, key, this.resolvePrincipal, { ...this.target, body }));
+        const fingerprint = this.fingerprint(body, getFingerprintFields());
+        const store = IdempotencyStoreConfig.getStore();
+
+        const processedRecord = await store.get(scopedKey);
+        if (processedRecord) {
+            // A record fingerprinted from other fields is compared with a fingerprint of the same fields
+            const storedFields = processedRecord.fingerprintFields || null;
+            const itemFingerprint = storedFields === fingerprint.fields ? fingerprint : this.fingerprint(body, storedFields);
+            if (processedRecord.bodyHash !== itemFingerprint.hash) {
+                this.recordUsage(scopedKey, 'conflict');
+                return { status: 'conflict', error: AppError.Conflict("Idempotency key conflict", "A transaction with this idempotency key already exists with a different request body.") };
+            }
+            if (processedRecord.expiredAt && new Date(processedRecord.expiredAt) < new Date()) {
+                return { status: 'conflict', error: AppError.Expired("Idempotency key expired", "The idempotency key has expired and cannot be used for this transaction.") };
+            }
+
+            this.recordUsage(scopedKey, 'replay');
+            return { status: 'replayed', response: this.toResponse(processedRecord) };
+        }
+
+        const token = await IdempotencyLock.acquire(scopedKey, fingerprint.hash);
+        if (!token) {
+            this.recordUsage(scopedKey, 'conflict');
+            if (await store.isOutcomeUnknown(scopedKey)) {
+                return { status: 'conflict', error: AppError.TooEarly("Idempotency key outcome unknown", "A request with this idempotency key timed out and may still complete. Please retry later.") };
+            }
+            return { status: 'conflict', error: AppError.Conflict("Idempotency key in use", "A request with this idempotency key is already being processed. Please retry later.") };
+        }
+
+        return { status: 'reserved', lease: { key, scopedKey, fingerprint, token } };
+    }
+
+    /**
+     * Settle a processed item: store its outcome if it is deterministic, so a retry replays it,
+     * then release its reservation. Failures are logged, the item has been processed either way.
+     * If its outcome could not be stored, the reservation is left to expire rather than released,
+     * so that a retry does not process the item again right away.
+     */
+    public async settle(lease: BatchItemLease, response: BatchItemResponse): Promise<void> {
+        try {
+            if (storeDeterministicOutcomes({ statusCode: response.statusCode }) === 'store') {
+                await this.record(lease, response);
+            }
+        } catch (error) {
+            Logger.error(`Failed to record idempotent response for key "${lease.key}": ${error}`);
+            IdempotencyLock.abandon(lease.scopedKey, lease.token);
+            return;
+        }
+
+        await this.release(lease);
+    }
+
+    /**
+     * Release the reservation of an item without storing anything, so a retry processes it again.
+     */
+    public async release(lease: BatchItemLease): Promise<void> {
+        try {
+            await IdempotencyLock.release(lease.scopedKey, lease.token);
+        } catch (error) {
+            Logger.error(`Failed to release idempotency lease for key "${lease.key}": ${error}`);
+        }
+    }
+
+    // Store the outcome of an item with the body the route it targets would have responded with
+    private async record(lease: BatchItemLease, response: BatchItemResponse): Promise<void> {
+        const idempotencyRecord: IdempotencyRecord = {
+            key: lease.scopedKey,
+            bodyHash: lease.fingerprint.hash,
+            fingerprintFields: lease.fingerprint.fields || undefined,
+            responsePayload: JSON.stringify(FormatResponse({
+                message: response.message,
+                error: response.error,
+                data: response.data,
+                req: this.req,
+            })),
+            statusCode: response.statusCode,
+            responseHeaders: JSON.stringify({ 'content-type': 'application/json; charset=utf-8' }),
+            firstRequestId: this.res.get("X-Request-Id"),
+            clientIp: this.req.ip,
+            userAgent: this.req.headers['user-agent'],
+            createdAt: new Date(),
+            expiredAt: new Date(Date.now() + this.ttlSeconds * 1000),
+        };
+
+        await IdempotencyStoreConfig.getStore().complete(lease.scopedKey, idempotencyRecord, this.ttlSeconds);
+    }
+
+    // Read the stored response of an item back
+    // Records stored before the original status code was kept only hold the data part of the response
+    private toResponse(record: IdempotencyRecord): BatchItemResponse {
+        const payload = JSON.parse(record.responsePayload);
+        if (!record.statusCode) {
+            return { statusCode: 200, message: "Transaction already processed", data: payload };
+        }
+        return { statusCode: record.statusCode, message: payload.message, data: payload.data, error: payload.error };
+    }
+
+    private fingerprint(body: unknown, fields: string | null): RequestFingerprint {
+        return computeRequestFingerprint(this.req, fields, { body, method: this.target.method, route: this.target.route });
+    }
+
+    // The usage trail is informational, so failing to update it never fails the item
+    private recordUsage(scopedKey: string, event: 'replay' | 'conflict'): void {
+        const update = event === 'replay' ? IdempotencyUsage.recordReplay(scopedKey) : IdempotencyUsage.recordConflict(scopedKey);
+        update.catch((error) => {
+            Logger.warn(`Failed to record idempotency ${event} for key "${scopedKey}": ${error}`);
+        });
+    }
+}
+
+export default BatchIdempotency;
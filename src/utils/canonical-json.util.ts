@@ -0,0 +1,45 @@
+/**
+ * Utility function to serialize a value as canonical JSON (RFC 8785, JSON Canonicalization Scheme).
+ * Semantically identical JSON values always produce the same string:
+ * - object members are sorted by their keys, compared as UTF-16 code units
+ * - numbers use the shortest ECMAScript representation (so 100 and 100.0 are both "100")
+ * - strings are escaped as by JSON.stringify, and no whitespace is emitted
+ * Values that JSON cannot represent (e.g. NaN or Infinity) are rejected.
+ */
+const canonicalize = (value: unknown): string => {
+    // Let values such as dates serialize themselves first, as JSON.stringify does
+    if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        return canonicalize((value as { toJSON: () => unknown }).toJSON());
+    }
+
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+        return JSON.stringify(value);
+    }
+
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Cannot canonicalize the non-finite number ${value}`);
+        }
+        return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+        // Array items that JSON cannot represent become null, as with JSON.stringify
+        const items = value.map((item) => (item === undefined || typeof item === 'function' || typeof item === 'symbol' ? 'null' : canonicalize(item)));
+        return `[${items.join(',')}]`;
+    }
+
+    if (typeof value === 'object') {
+        // Members that JSON cannot represent are left out, as with JSON.stringify
+        const members = value as Record<string, unknown>;
+        const serializedMembers = Object.keys(members)
+            .filter((key) => members[key] !== undefined && typeof members[key] !== 'function' && typeof members[key] !== 'symbol')
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalize(members[key])}`);
+        return `{${serializedMembers.join(',')}}`;
+    }
+
+    throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+};
+
+export default canonicalize;
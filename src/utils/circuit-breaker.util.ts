@@ -0,0 +1,103 @@
+import AppError from "../exceptions/app-error.exception";
+import Logger from "./logger.util";
+
+/**
+ * Circuit breaker utility class for guarding calls to an external dependency.
+ * After a number of consecutive failures the circuit opens and calls fail fast with a ServiceUnavailable error,
+ * instead of waiting on a dependency that is known to be down.
+ * While open, the dependency is probed in the background and the circuit closes again once a probe succeeds.
+ */
+type CircuitState = "closed" | "open";
+
+interface CircuitBreakerOptions {
+    failureThreshold: number;
+    probeIntervalMs: number;
+    probe: () => Promise<boolean>;
+}
+
+class CircuitBreaker {
+    private name: string;
+    private options: CircuitBreakerOptions;
+    private state: CircuitState = "closed";
+    private consecutiveFailures: number = 0;
+    private probeTimer: NodeJS.Timeout | null = null;
+
+    constructor(name: string, options: CircuitBreakerOptions) {
+        this.name = name;
+        this.options = options;
+    }
+
+    public getState(): CircuitState {
+        return this.state;
+    }
+
+    public isOpen(): boolean {
+        return this.state === "open";
+    }
+
+    public async execute<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.isOpen()) {
+            throw AppError.ServiceUnavailable(`${this.name} unavailable`, `The circuit breaker for ${this.name} is open.`);
+        }
+
+        try {
+            const result = await fn();
+            this.consecutiveFailures = 0;
+            return result;
+        } catch (error) {
+            // Application errors (e.g. a missing key) are not failures of the dependency itself
+            if (error instanceof AppError) {
+                throw error;
+            }
+
+            this.recordFailure(error);
+            throw AppError.ServiceUnavailable(`${this.name} unavailable`, `${error}`);
+        }
+    }
+
+    public recordFailure(error: unknown): void {
+        this.consecutiveFailures++;
+        if (this.consecutiveFailures >= this.options.failureThreshold) {
+            this.trip(error);
+        }
+    }
+
+    public trip(reason: unknown): void {
+        if (this.isOpen()) {
+            return;
+        }
+
+        this.state = "open";
+        Logger.warn(`Circuit breaker for ${this.name} opened: ${reason}`);
+
+        // Probe the dependency in the background until it recovers
+        this.probeTimer = setInterval(async () => {
+            try {
+                if (await this.options.probe()) {
+                    this.close();
+                }
+            } catch {
+                // The dependency is still unavailable, keep the circuit open
+            }
+        }, this.options.probeIntervalMs);
+        this.probeTimer.unref();
+    }
+
+    public close(): void {
+        this.stop();
+        if (this.isOpen()) {
+            Logger.info(`Circuit breaker for ${this.name} closed`);
+        }
+        this.state = "closed";
+        this.consecutiveFailures = 0;
+    }
+
+    public stop(): void {
+        if (this.probeTimer) {
+            clearInterval(this.probeTimer);
+            this.probeTimer = null;
+        }
+    }
+}
+
+export default CircuitBreaker;
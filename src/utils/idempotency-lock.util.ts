@@ -0,0 +1,119 @@
+import "dotenv/config";
+import crypto from "crypto";
+
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import Logger from "./logger.util";
+
+/**
+ * Utility class for managing in-flight idempotency reservations.
+ * A reservation is taken atomically in the configured IdempotencyStore with a lease TTL before the handler runs,
+ * so concurrent requests with the same idempotency key cannot both be processed.
+ * The lease is renewed while the request is in flight, released once the response is finished,
+ * and simply expires if the process crashes while holding it.
+ * Renewal stops once the lease reaches its maximum lifetime, so a handler that never settles
+ * cannot keep its key reserved forever.
+ * At shutdown, the requests in flight settle their own leases (see waitForAll) before the leftovers are released.
+ */
+interface HeldLease {
+    idempotencyKey: string;
+    token: string;
+    renewTimer: NodeJS.Timeout;
+}
+
+class IdempotencyLock {
+    private static heldLeases: Map<string, HeldLease> = new Map();
+
+    static getLeaseTtlSeconds(): number {
+        return Number(process.env.IDEMPOTENCY_LOCK_TTL_SECONDS) || 30; // Default lease of 30 seconds
+    }
+
+    static getMaxLifetimeSeconds(): number {
+        const maxLifetimeSeconds = Number(process.env.IDEMPOTENCY_LOCK_MAX_LIFETIME_SECONDS) || 300; // Default lifetime of 5 minutes
+        return Math.max(maxLifetimeSeconds, this.getLeaseTtlSeconds());
+    }
+
+    static async acquire(idempotencyKey: string, bodyHash: string): Promise<string | null> {
+        const store = IdempotencyStoreConfig.getStore();
+        const token = crypto.randomUUID();
+        const ttlSeconds = this.getLeaseTtlSeconds();
+
+        const acquired = await store.reserve(idempotencyKey, { token, bodyHash, ttlSeconds });
+        if (!acquired) {
+            return null;
+        }
+
+        // Renew the lease periodically so long-running handlers keep their reservation,
+        // while a crashed process stops renewing and the lease expires on its own
+        // The last renewals are shortened so that the lease expires at its maximum lifetime at the latest
+        const expiresAt = Date.now() + this.getMaxLifetimeSeconds() * 1000;
+        const renewTimer = setInterval(() => {
+            const remainingSeconds = Math.floor((expiresAt - Date.now()) / 1000);
+            if (remainingSeconds <= 0) {
+                clearInterval(renewTimer);
+                this.heldLeases.delete(token);
+                Logger.warn(`Idempotency lease for key "${idempotencyKey}" reached its maximum lifetime and is left to expire`);
+                return;
+            }
+
+            store.reserve(idempotencyKey, { token, bodyHash, ttlSeconds: Math.min(ttlSeconds, remainingSeconds) }).catch((error) => {
+                Logger.warn(`Failed to renew idempotency lease for key "${idempotencyKey}": ${error}`);
+            });
+        }, Math.max(1000, Math.floor((ttlSeconds * 1000) / 3)));
+        renewTimer.unref();
+
+        this.heldLeases.set(token, { idempotencyKey, token, renewTimer });
+        return token;
+    }
+
+    static async release(idempotencyKey: string, token: string): Promise<void> {
+        const lease = this.heldLeases.get(token);
+        if (lease) {
+            clearInterval(lease.renewTimer);
+        }
+
+        // The store only drops the reservation if it is still owned by this token
+        // The lease counts as held until then, so a shutdown waiting for it does not close the store under it
+        try {
+            await IdempotencyStoreConfig.getStore().release(idempotencyKey, token);
+        } finally {
+            this.heldLeases.delete(token);
+        }
+    }
+
+    // Stop renewing a lease without releasing it, so its key stays reserved until the lease expires
+    // Used when the outcome of a request could not be recorded, since releasing the key would let a retry execute it again
+    static abandon(idempotencyKey: string, token: string): void {
+        const lease = this.heldLeases.get(token);
+        if (lease) {
+            clearInterval(lease.renewTimer);
+            this.heldLeases.delete(token);
+        }
+        Logger.warn(`Idempotency lease for key "${idempotencyKey}" is left to expire`);
+    }
+
+    // Wait until the requests in flight have released (or abandoned) every lease held by this process, e.g. at shutdown
+    // Resolves with the number of leases still held when the timeout is reached
+    static async waitForAll(timeoutMs: number): Promise<number> {
+        const deadline = Date.now() + timeoutMs;
+        while (this.heldLeases.size > 0 && Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return this.heldLeases.size;
+    }
+
+    static async releaseAll(): Promise<void> {
+        const leases = Array.from(this.heldLeases.values());
+        this.heldLeases.clear();
+
+        for (const lease of leases) {
+            clearInterval(lease.renewTimer);
+            try {
+                await IdempotencyStoreConfig.getStore().release(lease.idempotencyKey, lease.token);
+            } catch (error) {
+                Logger.error(`Failed to release idempotency lease for key "${lease.idempotencyKey}": ${error}`);
+            }
+        }
+    }
+}
+
+export default IdempotencyLock;
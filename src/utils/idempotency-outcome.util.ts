@@ -0,0 +1,41 @@
+import { IdempotencyOutcome, IdempotencyOutcomeAction, IdempotencyOutcomePolicy } from "../types/idempotency.interface";
+
+/**
+ * Outcome policies deciding which responses of an idempotent route are stored and replayed.
+ * A policy is a pure function of the response status code and the AppError (if any) that produced it,
+ * so each route can choose its own and it can be checked in isolation.
+ * - "store": record the response, so retries with the same key replay it instead of executing again
+ * - "release": record nothing and release the key, so a retry executes the request again
+ */
+
+// Client errors that depend on timing or on other requests, so a retry may succeed
+const RETRYABLE_CLIENT_ERRORS = [408, 409, 423, 425, 429];
+
+const getStatusCode = (outcome: IdempotencyOutcome): number => {
+    // Prefer the status code of the AppError that produced the response, if any
+    return outcome.error?.statusCode ?? outcome.statusCode;
+};
+
+/**
+ * Store successful (2xx) responses only; any error releases the key.
+ */
+export const storeSuccessOnly: IdempotencyOutcomePolicy = (outcome: IdempotencyOutcome): IdempotencyOutcomeAction => {
+    const statusCode = getStatusCode(outcome);
+    return statusCode >= 200 && statusCode < 300 ? 'store' : 'release';
+};
+
+/**
+ * Store successful (2xx) responses and deterministic client errors (4xx, e.g. validation errors),
+ * so a retry gets the same answer instead of possibly executing with different side effects.
+ * Retryable client errors (e.g. 409 or 429) and server errors (5xx) are never stored and release the key.
+ */
+export const storeDeterministicOutcomes: IdempotencyOutcomePolicy = (outcome: IdempotencyOutcome): IdempotencyOutcomeAction => {
+    const statusCode = getStatusCode(outcome);
+    if (statusCode >= 200 && statusCode < 300) {
+        return 'store';
+    }
+    if (statusCode >= 400 && statusCode < 500 && !RETRYABLE_CLIENT_ERRORS.includes(statusCode)) {
+        return 'store';
+    }
+    return 'release';
+};
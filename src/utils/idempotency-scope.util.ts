@@ -0,0 +1,128 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { Request } from "express";
+
+/**
+ * Utility functions to scope idempotency keys.
+ * A client-supplied idempotency key is only unique within its scope: the principal (tenant or authenticated client)
+ * that sent it, the HTTP method and the route template. The same key sent by two principals, or to two endpoints,
+ * therefore never returns one caller's response to another.
+ * The scope is encoded into a single scoped key (`${method}:${route}:${principal}:${key}`, every part URI-encoded)
+ * that the idempotency stores use as their key, and that the Postgres store splits back into its columns.
+ */
+export interface IdempotencyScope {
+    principal: string;
+    method: string;
+    route: string;
+    key: string;
+}
+
+// Resolve the principal a request is made on behalf of, or undefined for anonymous requests
+// The body is the one of the request, or of the request embedded in it (e.g. an item of a batch)
+export type IdempotencyScopeResolver = (req: Request, body: unknown) => string | undefined;
+
+// Anonymous requests share a single scope
+const ANONYMOUS_PRINCIPAL = '';
+
+/**
+ * Get the route template of the request (e.g. "/api/transactions/:id"),
+ * so that requests to the same endpoint share a scope whatever their path parameters.
+ */
+export const getRouteTemplate = (req: Request): string => {
+    return req.baseUrl + (req.route ? req.route.path : req.path);
+};
+
+/**
+ * Default principal resolver, reading the authenticated client from res.locals.principal,
+ * as set by the authentication middleware in front of the route.
+ * The principal is never taken from a header the client sends, since any client could then claim another one's scope
+ * and be replayed its responses. Without authentication, every request is anonymous.
+ */
+export const resolveAuthenticatedPrincipal: IdempotencyScopeResolver = (req: Request): string | undefined => {
+    const principal = req.res?.locals.principal;
+    return typeof principal === 'string' && principal !== '' ? principal : undefined;
+};
+
+// Get the consumer ID of a transaction request body, if it has one
+const getConsumerId = (body: unknown): string | undefined => {
+    const consumerId = body && typeof body === 'object' ? (body as { consumerId?: unknown }).consumerId : undefined;
+    return typeof consumerId === 'string' && consumerId !== '' ? consumerId : undefined;
+};
+
+/**
+ * Principal resolver of the transaction routes, for the consumer a transaction request is made for (consumer:<id>),
+ * so the same key sent for two consumers never collides. An authenticated principal takes precedence,
+ * as the client it authenticates chooses its keys for all of its consumers.
+ */
+export const resolveConsumerPrincipal: IdempotencyScopeResolver = (req: Request, body: unknown): string | undefined => {
+    const authenticatedPrincipal = resolveAuthenticatedPrincipal(req, body);
+    if (authenticatedPrincipal) {
+        return authenticatedPrincipal;
+    }
+    const consumerId = getConsumerId(body);
+    return consumerId ? `consumer:${consumerId}` : undefined;
+};
+
+/**
+ * Principal resolver of the transaction batch route, for the consumers the items of a batch are made for.
+ * The sorted consumer IDs are hashed (consumers:<sha256>), so the principal fits its column whatever the size of the batch.
+ * An authenticated principal takes precedence, as for single transaction requests.
+ */
+export const resolveBatchConsumerPrincipal: IdempotencyScopeResolver = (req: Request, body: unknown): string | undefined => {
+    const authenticatedPrincipal = resolveAuthenticatedPrincipal(req, body);
+    if (authenticatedPrincipal) {
+        return authenticatedPrincipal;
+    }
+
+    const items = body && typeof body === 'object' ? (body as { items?: unknown }).items : undefined;
+    const consumerIds = new Set<string>();
+    for (const item of Array.isArray(items) ? items : []) {
+        const consumerId = getConsumerId(item && typeof item === 'object' ? (item as { transaction?: unknown }).transaction : undefined);
+        if (consumerId) {
+            consumerIds.add(consumerId);
+        }
+    }
+    if (consumerIds.size === 0) {
+        return undefined;
+    }
+    return `consumers:${crypto.createHash('sha256').update(Array.from(consumerIds).sort().join(',')).digest('hex')}`;
+};
+
+/**
+ * Get the scope of an idempotency key sent with the given request.
+ * The key of a request embedded in it (e.g. an item of a batch) is scoped by the method and route the embedded request
+ * targets instead, and its principal is resolved from its own body, so it shares its scope with the same request sent on its own.
+ */
+export const getIdempotencyScope = (req: Request, key: string, resolvePrincipal: IdempotencyScopeResolver = resolveAuthenticatedPrincipal, target?: { method: string; route: string; body: unknown }): IdempotencyScope => {
+    return {
+        principal: resolvePrincipal(req, target ? target.body : req.body) || ANONYMOUS_PRINCIPAL,
+        method: (target ? target.method : req.method).toUpperCase(),
+        route: target ? target.route : getRouteTemplate(req),
+        key,
+    };
+};
+
+/**
+ * Encode a scope into the scoped key used by the idempotency stores.
+ * The method comes first, so a scoped key never starts with a reserved Redis key segment such as "lock".
+ */
+export const toScopedKey = (scope: IdempotencyScope): string => {
+    return [scope.method, scope.route, scope.principal, scope.key].map((part) => encodeURIComponent(part)).join(':');
+};
+
+/**
+ * Decode a scoped key back into its scope, or return null if it is not a scoped key (e.g. a legacy unscoped key).
+ */
+export const parseScopedKey = (scopedKey: string): IdempotencyScope | null => {
+    const parts = scopedKey.split(':');
+    if (parts.length !== 4 || parts[0] === '' || parts[3] === '') {
+        return null;
+    }
+
+    try {
+        const [method, route, principal, key] = parts.map((part) => decodeURIComponent(part));
+        return { principal, method, route, key };
+    } catch {
+        return null; // Malformed URI encoding
+    }
+};
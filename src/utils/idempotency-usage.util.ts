@@ -0,0 +1,132 @@
+import "dotenv/config";
+import { Op } from "sequelize";
+
+import AppError from "../exceptions/app-error.exception";
+import IdempotencyStoreConfig from "../config/idempotency-store.config";
+import Logger from "./logger.util";
+import RedisIdempotencyStore from "../stores/redis-idempotency.store";
+import RedisUtil from "./redis.util";
+import { IdempotencyMeta } from "../models/idempotency-meta.model";
+import { parseScopedKey } from "./idempotency-scope.util";
+
+/**
+ * Utility class for tracking the usage of idempotency keys: how many times a stored response was replayed
+ * (and when it last was), and how many conflicting attempts were rejected.
+ * When Redis is used, the counters are incremented atomically in a Redis hash per key, and the key is added
+ * to a pending set; the usage flusher job later moves them to the idempotency_meta columns in batches,
+ * so replays do not write to the database. Without Redis (or while it is unavailable), the columns are incremented directly.
+ */
+export interface IdempotencyUsageCounters {
+    replayCount: number;
+    conflictCount: number;
+    lastReplayedAt?: Date;
+}
+
+// Counters waiting to be flushed are kept at most this long in Redis
+const USAGE_TTL_SECONDS = 24 * 3600;
+
+class IdempotencyUsage {
+    private static redisStore: RedisIdempotencyStore = new RedisIdempotencyStore();
+
+    static async recordReplay(scopedKey: string): Promise<void> {
+        await this.record(scopedKey, { replayCount: 1, conflictCount: 0, lastReplayedAt: new Date() });
+    }
+
+    static async recordConflict(scopedKey: string): Promise<void> {
+        await this.record(scopedKey, { replayCount: 0, conflictCount: 1 });
+    }
+
+    // Get the counters of a key that are still waiting in Redis to be flushed to the database
+    static async getPending(scopedKey: string): Promise<IdempotencyUsageCounters> {
+        if (!IdempotencyStoreConfig.usesRedis()) {
+            return { replayCount: 0, conflictCount: 0 };
+        }
+        return this.parseCounters(await RedisUtil.hashGetAll(this.redisStore.getUsageKey(scopedKey)));
+    }
+
+    // Move the pending counters of up to batchSize keys from Redis to the database, returning how many keys were flushed
+    static async flush(batchSize: number): Promise<number> {
+        const scopedKeys = await RedisUtil.setPop(this.redisStore.getPendingUsageKey(), batchSize);
+
+        let flushed = 0;
+        for (const scopedKey of scopedKeys) {
+            // Take the counters atomically, so increments made meanwhile go to the next flush
+            const counters = this.parseCounters(await RedisUtil.hashTake(this.redisStore.getUsageKey(scopedKey)));
+            if (counters.replayCount === 0 && counters.conflictCount === 0) {
+                continue;
+            }
+
+            try {
+                await this.applyToDatabase(scopedKey, counters);
+                flushed++;
+            } catch (error) {
+                // Put the counters back, to be flushed again next time
+                Logger.warn(`Failed to flush idempotency usage for key "${scopedKey}": ${error}`);
+                await this.incrementInRedis(scopedKey, counters);
+            }
+        }
+        return flushed;
+    }
+
+    private static async record(scopedKey: string, counters: IdempotencyUsageCounters): Promise<void> {
+        if (IdempotencyStoreConfig.usesRedis()) {
+            try {
+                await this.incrementInRedis(scopedKey, counters);
+                return;
+            } catch (error) {
+                // Fall back to the database while Redis is unavailable
+                if (!(error instanceof AppError && error.statusCode === 503) || !IdempotencyStoreConfig.usesDatabase()) {
+                    throw error;
+                }
+            }
+        }
+
+        if (IdempotencyStoreConfig.usesDatabase()) {
+            await this.applyToDatabase(scopedKey, counters);
+        }
+    }
+
+    private static async incrementInRedis(scopedKey: string, counters: IdempotencyUsageCounters): Promise<void> {
+        const values: Record<string, string> = counters.lastReplayedAt ? { lastReplayedAt: String(counters.lastReplayedAt.getTime()) } : {};
+        await RedisUtil.hashIncrement(this.redisStore.getUsageKey(scopedKey), {
+            replayCount: counters.replayCount,
+            conflictCount: counters.conflictCount,
+        }, values, USAGE_TTL_SECONDS);
+        await RedisUtil.setAdd(this.redisStore.getPendingUsageKey(), scopedKey);
+    }
+
+    private static async applyToDatabase(scopedKey: string, counters: IdempotencyUsageCounters): Promise<void> {
+        const scope = parseScopedKey(scopedKey);
+        if (!scope) {
+            return;
+        }
+
+        await IdempotencyMeta.increment({
+            replayCount: counters.replayCount,
+            conflictCount: counters.conflictCount,
+        }, { where: { ...scope } });
+
+        // Only move lastReplayedAt forward, counters flushed out of order must not move it back
+        if (counters.lastReplayedAt) {
+            await IdempotencyMeta.update({ lastReplayedAt: counters.lastReplayedAt }, {
+                where: {
+                    ...scope,
+                    [Op.or]: [
+                        { lastReplayedAt: null },
+                        { lastReplayedAt: { [Op.lt]: counters.lastReplayedAt } },
+                    ],
+                },
+            });
+        }
+    }
+
+    private static parseCounters(values: Record<string, string>): IdempotencyUsageCounters {
+        return {
+            replayCount: Number(values.replayCount) || 0,
+            conflictCount: Number(values.conflictCount) || 0,
+            lastReplayedAt: values.lastReplayedAt ? new Date(Number(values.lastReplayedAt)) : undefined,
+        };
+    }
+}
+
+export default IdempotencyUsage;
@@ -0,0 +1,44 @@
+import "dotenv/config";
+import crypto from "crypto";
+
+import RedisUtil from "./redis.util";
+
+/**
+ * Utility class for electing a single leader among the running instances for a background job.
+ * The leader holds a Redis key (SET NX with a TTL) with a token unique to this process,
+ * and renews it every time it runs, so it keeps the leadership as long as it is alive.
+ * If the leader stops, the key expires and another instance takes over on its next run.
+ * The key lives under `${prefix}:lock:leader:`, next to the reservation locks, so the reconciler never treats it as a record.
+ */
+class LeaderLock {
+    private name: string;
+    private ttlSeconds: number;
+    private token: string;
+    private prefix: string;
+
+    constructor(name: string, ttlSeconds: number) {
+        this.name = name;
+        this.ttlSeconds = ttlSeconds;
+        this.token = crypto.randomUUID();
+        this.prefix = process.env.IDEMPOTENCY_PREFIX || 'idempotency';
+    }
+
+    public getKey(): string {
+        return `${this.prefix}:lock:leader:${this.name}`;
+    }
+
+    // Take or renew the leadership, returning whether this instance is the leader
+    public async acquire(): Promise<boolean> {
+        if (await RedisUtil.setIfNotExists(this.getKey(), this.token, this.ttlSeconds)) {
+            return true;
+        }
+        return RedisUtil.expireIfEquals(this.getKey(), this.token, this.ttlSeconds);
+    }
+
+    // Give up the leadership, if this instance holds it
+    public async release(): Promise<void> {
+        await RedisUtil.delIfEquals(this.getKey(), this.token);
+    }
+}
+
+export default LeaderLock;
@@ -58,23 +58,23 @@ class Logger {
         }
     }
 
-    public log(level: string, message: string, meta?: any) {
+    public log(level: string, message: string, meta?: unknown) {
         this.logger.log(level, message, meta);
     }
 
-    public info(message: string, meta?: any) {
+    public info(message: string, meta?: unknown) {
         this.logger.info(message, meta);
     }
 
-    public warn(message: string, meta?: any) {
+    public warn(message: string, meta?: unknown) {
         this.logger.warn(message, meta);
     }
 
-    public error(message: string, meta?: any) {
+    public error(message: string, meta?: unknown) {
         this.logger.error(message, meta);
     }
 
-    public debug(message: string, meta?: any) {
+    public debug(message: string, meta?: unknown) {
         this.logger.debug(message, meta);
     }
 }
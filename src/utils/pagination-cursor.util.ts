@@ -0,0 +1,83 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { z } from "zod";
+
+import AppError from "../exceptions/app-error.exception";
+import Logger from "./logger.util";
+
+/**
+ * Utility functions to encode and decode opaque pagination cursors.
+ * A cursor points at the first or last row of a page, by its (createdAt, id) position, and tells in which direction
+ * the next page is read; it is only valid for the sort order it was issued for.
+ * Cursors are base64url-encoded JSON signed with an HMAC-SHA256 of PAGINATION_CURSOR_SECRET,
+ * so clients cannot forge a position. Without a secret, a random one is generated, and the cursors issued
+ * by an instance are only valid on that instance until it restarts.
+ */
+export interface PaginationCursor {
+    createdAt: string; // ISO timestamp in UTC, with the microseconds stored by the database
+    id: string;
+    direction: 'next' | 'prev';
+    sortOrder: 'asc' | 'desc';
+}
+
+const PaginationCursorSchema = z.object({
+    createdAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/),
+    id: z.string().uuid(),
+    direction: z.enum(['next', 'prev']),
+    sortOrder: z.enum(['asc', 'desc']),
+});
+
+let cursorSecret: string | null = null;
+
+const getCursorSecret = (): string => {
+    if (!cursorSecret) {
+        cursorSecret = process.env.PAGINATION_CURSOR_SECRET || '';
+        if (!cursorSecret) {
+            Logger.warn("PAGINATION_CURSOR_SECRET is not set, pagination cursors are only valid on this instance until it restarts");
+            cursorSecret = crypto.randomBytes(32).toString('hex');
+        }
+    }
+    return cursorSecret;
+};
+
+const sign = (payload: string): string => {
+    return crypto.createHmac('sha256', getCursorSecret()).update(payload).digest('base64url');
+};
+
+/**
+ * Encode a cursor into an opaque, signed string.
+ */
+export const encodeCursor = (cursor: PaginationCursor): string => {
+    const payload = Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+    return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Decode an opaque cursor, checking its signature.
+ * Throws a BadRequest error if the cursor is malformed or was not issued by this API.
+ */
+export const decodeCursor = (encodedCursor: string): PaginationCursor => {
+    const invalidCursor = AppError.BadRequest("Invalid cursor", "The pagination cursor is malformed or has been tampered with.");
+
+    const [payload, signature, ...rest] = encodedCursor.split('.');
+    if (!payload || !signature || rest.length > 0) {
+        throw invalidCursor;
+    }
+
+    // Compare digests in constant time, so the signature cannot be guessed byte by byte
+    const expectedDigest = crypto.createHash('sha256').update(sign(payload)).digest();
+    const actualDigest = crypto.createHash('sha256').update(signature).digest();
+    if (!crypto.timingSafeEqual(expectedDigest, actualDigest)) {
+        throw invalidCursor;
+    }
+
+    try {
+        const result = PaginationCursorSchema.safeParse(JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')));
+        if (result.success) {
+            return result.data;
+        }
+    } catch {
+        // Not JSON, reported below
+    }
+    throw invalidCursor;
+};
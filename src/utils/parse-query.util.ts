@@ -0,0 +1,19 @@
+import { Request } from "express";
+import { z, ZodTypeAny } from "zod";
+
+import AppError from "../exceptions/app-error.exception";
+
+/**
+ * Utility function to validate the query parameters of a request against a Zod schema.
+ * Express 5 does not let req.query be replaced, so the parsed query (with its defaults and coerced values)
+ * is returned instead. If validation fails, it throws a BadRequest error with details of the validation errors.
+ */
+const parseQuery = <T extends ZodTypeAny>(schema: T, req: Request): z.infer<T> => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+        throw AppError.BadRequest("Invalid query parameters", result.error.flatten().fieldErrors);
+    }
+    return result.data;
+};
+
+export default parseQuery;
@@ -0,0 +1,147 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { promisify } from "util";
+import zlib from "zlib";
+
+import AppError from "../exceptions/app-error.exception";
+import Logger from "./logger.util";
+
+/**
+ * Utility class to encode stored response payloads at rest, in Redis and in the idempotency_meta table.
+ * A payload larger than IDEMPOTENCY_PAYLOAD_COMPRESSION_THRESHOLD bytes is compressed (gzip or brotli, from
+ * IDEMPOTENCY_PAYLOAD_COMPRESSION), then encrypted with AES-256-GCM when IDEMPOTENCY_PAYLOAD_KEYS is set.
+ * IDEMPOTENCY_PAYLOAD_KEYS lists the keys as `keyId:base64Key` pairs: the first one encrypts new payloads,
+ * and all of them decrypt, so a key can be rotated by adding the new key first and removing the old one
+ * once the payloads it encrypted have expired.
+ * Encoded payloads are stored as `pc1:${compression}:${keyId}:${iv}:${authTag}:${data}` (empty parts when not encrypted),
+ * and the scoped idempotency key is authenticated with the payload, so a payload cannot be moved to another key.
+ * Payloads without this prefix were stored in plaintext, and are returned as they are.
+ * A payload that cannot be decoded fails with an AppError; it is never treated as a missing record,
+ * which would execute the request again.
+ */
+type PayloadCompression = "none" | "gzip" | "br";
+
+const ENVELOPE_VERSION = 'pc1';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+class PayloadCodec {
+    private keys: Map<string, Buffer> = new Map();
+    private activeKeyId: string | null = null;
+    private compression: PayloadCompression;
+    private compressionThreshold: number;
+
+    constructor() {
+        for (const entry of (process.env.IDEMPOTENCY_PAYLOAD_KEYS || '').split(',').map((entry) => entry.trim()).filter(Boolean)) {
+            const separator = entry.indexOf(':');
+            const keyId = entry.slice(0, separator);
+            const key = Buffer.from(entry.slice(separator + 1), 'base64');
+            if (separator <= 0 || !KEY_ID_PATTERN.test(keyId) || key.length !== 32) {
+                throw new Error(`Invalid IDEMPOTENCY_PAYLOAD_KEYS entry "${keyId || entry.slice(0, 8)}". Expected keyId:base64Key with a 256-bit key.`);
+            }
+            this.keys.set(keyId, key);
+            this.activeKeyId = this.activeKeyId || keyId;
+        }
+
+        const compression = (process.env.IDEMPOTENCY_PAYLOAD_COMPRESSION || 'none').toLowerCase();
+        if (!['none', 'gzip', 'brotli'].includes(compression)) {
+            throw new Error(`Invalid IDEMPOTENCY_PAYLOAD_COMPRESSION "${compression}". Expected one of: none, gzip, brotli.`);
+        }
+        this.compression = compression === 'brotli' ? 'br' : compression as PayloadCompression;
+        this.compressionThreshold = Number(process.env.IDEMPOTENCY_PAYLOAD_COMPRESSION_THRESHOLD) || 1024; // Default of 1 KiB
+    }
+
+    public isEncryptionEnabled(): boolean {
+        return this.activeKeyId !== null;
+    }
+
+    // Encode a payload to be stored for the given scoped idempotency key
+    public async encode(payload: string, scopedKey: string): Promise<string> {
+        let data = Buffer.from(payload, 'utf8');
+        const compression = this.compression !== 'none' && data.length > this.compressionThreshold ? this.compression : 'none';
+        if (!this.activeKeyId && compression === 'none') {
+            return payload;
+        }
+
+        if (compression === 'gzip') {
+            data = await gzip(data);
+        } else if (compression === 'br') {
+            data = await brotliCompress(data);
+        }
+
+        if (!this.activeKeyId) {
+            return [ENVELOPE_VERSION, compression, '', '', '', data.toString('base64')].join(':');
+        }
+
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(this.activeKeyId) as Buffer, iv);
+        cipher.setAAD(Buffer.from(scopedKey, 'utf8'));
+        const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+        return [
+            ENVELOPE_VERSION,
+            compression,
+            this.activeKeyId,
+            iv.toString('base64'),
+            cipher.getAuthTag().toString('base64'),
+            encrypted.toString('base64'),
+        ].join(':');
+    }
+
+    // Decode a payload stored for the given scoped idempotency key
+    public async decode(storedPayload: string, scopedKey: string): Promise<string> {
+        if (!storedPayload.startsWith(`${ENVELOPE_VERSION}:`)) {
+            return storedPayload; // Stored in plaintext
+        }
+
+        const parts = storedPayload.split(':');
+        if (parts.length !== 6) {
+            throw this.decodeError(scopedKey, "Malformed stored idempotent response");
+        }
+        const [, compression, keyId, iv, authTag, encodedData] = parts;
+        let data = Buffer.from(encodedData, 'base64');
+
+        if (keyId) {
+            const key = this.keys.get(keyId);
+            if (!key) {
+                throw this.decodeError(scopedKey, `Unknown encryption key "${keyId}" for the stored idempotent response`);
+            }
+
+            try {
+                const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+                decipher.setAAD(Buffer.from(scopedKey, 'utf8'));
+                decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+                data = Buffer.concat([decipher.update(data), decipher.final()]);
+            } catch (error) {
+                throw this.decodeError(scopedKey, `Failed to decrypt the stored idempotent response with key "${keyId}"`, error);
+            }
+        }
+
+        try {
+            if (compression === 'gzip') {
+                data = await gunzip(data);
+            } else if (compression === 'br') {
+                data = await brotliDecompress(data);
+            } else if (compression !== 'none') {
+                throw new Error(`unknown compression "${compression}"`);
+            }
+        } catch (error) {
+            throw this.decodeError(scopedKey, "Failed to decompress the stored idempotent response", error);
+        }
+        return data.toString('utf8');
+    }
+
+    // Log the cause, and fail the request without disclosing it
+    private decodeError(scopedKey: string, reason: string, cause?: unknown): AppError {
+        Logger.error(`${reason} for key "${scopedKey}"${cause ? `: ${cause}` : ''}`);
+        return AppError.InternalServerError(
+            "Stored idempotent response could not be decoded",
+            `${reason}. The request was not executed again; the idempotency key must be fixed or deleted by an administrator.`,
+        );
+    }
+}
+
+export default new PayloadCodec();
@@ -5,49 +5,149 @@ import RedisConfig from "../config/redis.config";
  * Utility class for interacting with Redis.
  * This class provides methods to set, get, and delete cache entries in Redis.
  * It handles JSON serialization and deserialization of values.
+ * All commands go through the Redis circuit breaker, so they fail fast with a
+ * ServiceUnavailable error while Redis is unhealthy.
  */
 class RedisUtil {
-    static async set(key: string, value: any, ttl: number = 3600): Promise<void> {
+    static async set(key: string, value: unknown, ttl: number = 3600): Promise<void> {
         const jsonValue = JSON.stringify(value);
-        const redis = await RedisConfig.getClient();
-        if (!redis) {
-            throw new AppError("Redis client not initialized", "Ensure that Redis is properly configured and connected.");
-        }
 
-        // Set the key with the value and expiration time
-        const result = await redis.set(key, jsonValue, 'EX', ttl);
-        if (result !== 'OK') {
-            throw new AppError("Cache set error", `Failed to set cache for key "${key}".`);
-        }
+        await RedisConfig.execute(async (redis) => {
+            // Set the key with the value and expiration time
+            const result = await redis.set(key, jsonValue, 'EX', ttl);
+            if (result !== 'OK') {
+                throw new AppError("Cache set error", `Failed to set cache for key "${key}".`);
+            }
+        });
     }
 
-    static async get<T = any>(key: string): Promise<T | null> {
-        const redis = await RedisConfig.getClient();
-        if (!redis) {
-            throw new AppError("Redis client not initialized", "Ensure that Redis is properly configured and connected.");
-        }
-        
+    static async setIfNotExists(key: string, value: unknown, ttl: number = 3600): Promise<boolean> {
+        const jsonValue = JSON.stringify(value);
+
+        return RedisConfig.execute(async (redis) => {
+            // Set the key only if it does not exist yet, atomically with the expiration time
+            // Redis returns null when the key is already present
+            const result = await redis.set(key, jsonValue, 'EX', ttl, 'NX');
+            return result === 'OK';
+        });
+    }
+
+    static async expireIfEquals(key: string, expected: unknown, ttl: number): Promise<boolean> {
+        return RedisConfig.execute(async (redis) => {
+            // Refresh the expiration time only if the key still holds the expected value
+            const script = `
+                if redis.call('GET', KEYS[1]) == ARGV[1] then
+                    return redis.call('EXPIRE', KEYS[1], ARGV[2])
+                end
+                return 0
+            `;
+            const result = await redis.eval(script, 1, key, JSON.stringify(expected), ttl);
+            return result === 1;
+        });
+    }
+
+    static async delIfEquals(key: string, expected: unknown): Promise<boolean> {
+        return RedisConfig.execute(async (redis) => {
+            // Delete the key only if it still holds the expected value
+            const script = `
+                if redis.call('GET', KEYS[1]) == ARGV[1] then
+                    return redis.call('DEL', KEYS[1])
+                end
+                return 0
+            `;
+            const result = await redis.eval(script, 1, key, JSON.stringify(expected));
+            return result === 1;
+        });
+    }
+
+    static async get<T = unknown>(key: string): Promise<T | null> {
         // Get the value from Redis
         // If the key does not exist, return null
-        const data = await redis.get(key);
+        const data = await RedisConfig.execute((redis) => redis.get(key));
         if (data) {
             try {
                 return JSON.parse(data) as T;
-            } catch (error) {
+            } catch {
                 throw new AppError("Invalid JSON format in cache", "The cached data could not be parsed as JSON.");
             }
         }
         return null;
     }
 
-    static async del(key: string): Promise<void> {
-        const redis = await RedisConfig.getClient();
-        if (!redis) {
-            throw new AppError("Redis client not initialized", "Ensure that Redis is properly configured and connected.");
-        }
+    static async ttl(key: string): Promise<number> {
+        // Remaining time to live of the key in seconds, -1 if it has no expiry, or -2 if it does not exist
+        return RedisConfig.execute((redis) => redis.ttl(key));
+    }
 
+    static async hashIncrement(key: string, increments: Record<string, number>, values: Record<string, string> = {}, ttl: number = 3600): Promise<void> {
+        // Increment the counters and set the values of a hash atomically, and refresh its expiration time
+        await RedisConfig.execute(async (redis) => {
+            const transaction = redis.multi();
+            for (const [field, increment] of Object.entries(increments)) {
+                transaction.hincrby(key, field, increment);
+            }
+            if (Object.keys(values).length > 0) {
+                transaction.hset(key, values);
+            }
+            transaction.expire(key, ttl);
+            await transaction.exec();
+        });
+    }
+
+    static async hashGetAll(key: string): Promise<Record<string, string>> {
+        return RedisConfig.execute((redis) => redis.hgetall(key));
+    }
+
+    static async hashTake(key: string): Promise<Record<string, string>> {
+        // Read and delete a hash atomically, so increments made meanwhile are never lost
+        return RedisConfig.execute(async (redis) => {
+            const script = `
+                local values = redis.call('HGETALL', KEYS[1])
+                redis.call('DEL', KEYS[1])
+                return values
+            `;
+            const result = await redis.eval(script, 1, key) as string[];
+            const values: Record<string, string> = {};
+            for (let i = 0; i < result.length; i += 2) {
+                values[result[i]] = result[i + 1];
+            }
+            return values;
+        });
+    }
+
+    static async setAdd(key: string, member: string): Promise<void> {
+        await RedisConfig.execute((redis) => redis.sadd(key, member));
+    }
+
+    static async setPop(key: string, count: number): Promise<string[]> {
+        return RedisConfig.execute((redis) => redis.spop(key, count));
+    }
+
+    static async scanKeys(pattern: string, count: number = 100): Promise<string[]> {
+        // Iterate with SCAN instead of KEYS, so Redis is not blocked on large keyspaces
+        return RedisConfig.execute(async (redis) => {
+            const keys: string[] = [];
+            let cursor = '0';
+            do {
+                const [nextCursor, batch] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', count);
+                keys.push(...batch);
+                cursor = nextCursor;
+            } while (cursor !== '0');
+            return keys;
+        });
+    }
+
+    static async scanPage(cursor: string, pattern: string, count: number = 100): Promise<{ cursor: string; keys: string[] }> {
+        // A single SCAN step, so a caller can spread a scan over several runs by keeping the returned cursor ('0' once done)
+        return RedisConfig.execute(async (redis) => {
+            const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', count);
+            return { cursor: nextCursor, keys };
+        });
+    }
+
+    static async del(key: string): Promise<void> {
         // Delete the key from Redis
-        const result = await redis.del(key);
+        const result = await RedisConfig.execute((redis) => redis.del(key));
         if (result === 0) {
             throw new AppError("Cache key not found", `The cache key "${key}" does not exist.`);
         }
@@ -0,0 +1,104 @@
+import "dotenv/config";
+import crypto from "crypto";
+import { Request } from "express";
+
+import canonicalize from "./canonical-json.util";
+import { getRouteTemplate } from "./idempotency-scope.util";
+
+/**
+ * Utility functions to fingerprint a request for idempotency checks.
+ * The fingerprint is the SHA256 hash of the canonical JSON (RFC 8785) of the request body and path parameters,
+ * optionally together with the HTTP method, the route path, selected query parameters and selected headers.
+ * Keys are scoped by route template, so the path parameters tell apart requests to different resources
+ * (e.g. cancelling two transactions with the same key is a conflict, not a replay).
+ * The fields that were used are stored with the hash (e.g. "body,params,method,query:page,header:x-tenant-id"),
+ * so a stored fingerprint is always compared with one computed from the same fields, even after the configuration changed.
+ * Records stored before fingerprints were canonical have no field list, and are compared with the legacy hash
+ * of JSON.stringify(req.body).
+ * A request embedded in another one (e.g. an item of a batch) is fingerprinted as if it had been sent on its own:
+ * with its own body, method and route, no path or query parameters, and the headers of the enclosing request.
+ */
+export interface RequestFingerprint {
+    hash: string;
+    fields: string | null;
+}
+
+// A request embedded in another one, targeting its own route
+export interface EmbeddedRequest {
+    body: unknown;
+    method: string;
+    route: string;
+}
+
+// Fields a fingerprint can be made of, besides the body and path parameters which are always included
+const FINGERPRINT_FIELD_PATTERN = /^(method|path|query:.+|header:.+)$/;
+
+/**
+ * Get the normalized list of fields the fingerprint is made of, from IDEMPOTENCY_FINGERPRINT_FIELDS.
+ * The body and path parameters always come first; header names are case-insensitive and lowercased.
+ */
+export const getFingerprintFields = (): string => {
+    const configuredFields = (process.env.IDEMPOTENCY_FINGERPRINT_FIELDS || '')
+        .split(',')
+        .map((field) => field.trim())
+        .filter((field) => field !== '' && field !== 'body' && field !== 'params');
+
+    const fields = ['body', 'params'];
+    for (const field of configuredFields) {
+        if (!FINGERPRINT_FIELD_PATTERN.test(field)) {
+            throw new Error(`Invalid idempotency fingerprint field "${field}"`);
+        }
+
+        const normalizedField = field.startsWith('header:') ? field.toLowerCase() : field;
+        if (!fields.includes(normalizedField)) {
+            fields.push(normalizedField);
+        }
+    }
+    return fields.join(',');
+};
+
+// Get the value of a single fingerprint field from the request, or from the request embedded in it
+const getFieldValue = (req: Request, field: string, embedded?: EmbeddedRequest): unknown => {
+    if (field === 'body') {
+        return (embedded ? embedded.body : req.body) ?? null;
+    }
+    if (field === 'params') {
+        return embedded ? {} : req.params;
+    }
+    if (field === 'method') {
+        return embedded ? embedded.method : req.method;
+    }
+    if (field === 'path') {
+        return embedded ? embedded.route : getRouteTemplate(req);
+    }
+    if (field.startsWith('query:')) {
+        return embedded ? null : req.query[field.slice('query:'.length)] ?? null;
+    }
+    if (field.startsWith('header:')) {
+        return req.headers[field.slice('header:'.length)] ?? null;
+    }
+    throw new Error(`Invalid idempotency fingerprint field "${field}"`);
+};
+
+/**
+ * Compute the fingerprint of a request (or of the given request embedded in it) from the given list of fields.
+ * Without a field list, the legacy hash of the non-canonical request body is computed.
+ */
+export const computeRequestFingerprint = (req: Request, fields: string | null, embedded?: EmbeddedRequest): RequestFingerprint => {
+    if (!fields) {
+        return {
+            hash: crypto.createHash('sha256').update(JSON.stringify(embedded ? embedded.body : req.body)).digest('hex'),
+            fields: null,
+        };
+    }
+
+    const values: Record<string, unknown> = {};
+    for (const field of fields.split(',')) {
+        values[field] = getFieldValue(req, field, embedded);
+    }
+
+    return {
+        hash: crypto.createHash('sha256').update(canonicalize(values)).digest('hex'),
+        fields,
+    };
+};
@@ -0,0 +1,98 @@
+import { Response } from "express";
+
+/**
+ * Utility function to capture the outcome of an Express response.
+ * It intercepts res.status and res.send (which res.json goes through) so that the status code and the exact body
+ * written by any route handler can be recorded once the response has finished,
+ * without the handler having to know about it.
+ * A response can also be detached from a handler that missed its deadline, once another response was sent in its place,
+ * or whose client has disconnected: what the handler writes afterwards is then only captured, and never sent.
+ */
+export interface CapturedResponse {
+    statusCode: number;
+    body?: string;
+}
+
+// A response as the handler settled it, with the headers it set
+export interface SettledResponse extends CapturedResponse {
+    headers: Record<string, string>;
+}
+
+const captureResponse = (res: Response): CapturedResponse => {
+    const captured: CapturedResponse = {
+        statusCode: res.statusCode,
+        body: undefined,
+    };
+
+    const originalStatus = res.status.bind(res);
+    const originalSend = res.send.bind(res);
+
+    res.status = (code: number) => {
+        captured.statusCode = code;
+        return originalStatus(code);
+    };
+
+    // res.json serializes the body and calls res.send internally, and objects passed to res.send
+    // are serialized through res.json, so both end up here as a string
+    // Only strings and buffers are captured to keep the exact bytes that were sent
+    res.send = (body?: unknown) => {
+        if (typeof body === 'string') {
+            captured.body = body;
+        } else if (Buffer.isBuffer(body)) {
+            captured.body = body.toString('utf8');
+        } else if (body === undefined && captured.body === undefined) {
+            captured.body = '';
+        }
+        return originalSend(body);
+    };
+
+    return captured;
+};
+
+/**
+ * Detach a response that has already been sent (or can no longer be) from its route handler.
+ * The status code, headers and body the handler writes afterwards are captured instead of being sent,
+ * and onSettled is called with them once the handler has sent its body.
+ * The status code starts from the given one, e.g. one the handler set before being detached.
+ */
+export const detachResponse = (res: Response, onSettled: (late: SettledResponse) => void, statusCode: number = 200): void => {
+    const late: SettledResponse = {
+        statusCode,
+        body: undefined,
+        headers: {},
+    };
+
+    res.status = (code: number) => {
+        late.statusCode = code;
+        return res;
+    };
+
+    res.setHeader = (name: string, value: number | string | readonly string[]) => {
+        late.headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        return res;
+    };
+
+    // Labelled as JSON like res.json does, so the response is replayed with the right media type
+    res.json = (body?: unknown) => {
+        if (!late.headers['content-type']) {
+            late.headers['content-type'] = 'application/json; charset=utf-8';
+        }
+        return res.send(JSON.stringify(body));
+    };
+
+    res.send = (body?: unknown) => {
+        if (typeof body === 'string') {
+            late.body = body;
+        } else if (Buffer.isBuffer(body)) {
+            late.body = body.toString('utf8');
+        } else if (body !== undefined) {
+            late.body = JSON.stringify(body);
+        } else {
+            late.body = '';
+        }
+        onSettled(late);
+        return res;
+    };
+};
+
+export default captureResponse;
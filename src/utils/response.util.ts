@@ -4,19 +4,38 @@ import { Request } from "express";
  * Utility function to format the response object for API responses.
  * It standardizes the structure of the response, including message, error, data, and request path.
  * This can be used across different parts of the application to ensure consistent response formatting.
+ * Paginated lists also include their pagination metadata, which other responses leave out:
+ * the page number and totals with offset pagination, or the links to the next and previous pages with cursor pagination.
  */
+export interface OffsetPaginationMeta {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+}
+
+export interface CursorPaginationMeta {
+    limit: number;
+    next: string | null;
+    prev: string | null;
+}
+
+export type PaginationMeta = OffsetPaginationMeta | CursorPaginationMeta;
+
 interface ResponseOptions {
     message: string;
-    error?: any;
-    data?: any;
+    error?: unknown;
+    data?: unknown;
+    pagination?: PaginationMeta;
     req: Request;
 }
 
-const formatResponse = ({ message, error = null, data = null, req }: ResponseOptions) => {
+const formatResponse = ({ message, error = null, data = null, pagination, req }: ResponseOptions) => {
     return {
         message,
         error,
         data,
+        ...(pagination ? { pagination } : {}),
         path: req.originalUrl,
         timestamp: new Date().toISOString(),
     };
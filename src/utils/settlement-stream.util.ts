@@ -0,0 +1,174 @@
+import "dotenv/config";
+
+import RedisConfig from "../config/redis.config";
+import RedisUtil from "./redis.util";
+
+/**
+ * Utility class for the Redis Stream that feeds pending transactions to the settlement worker.
+ * A message (transactionId, attempt) is added to the stream once the transaction has been committed,
+ * and read by the workers through a consumer group, so each message goes to a single worker and stays pending
+ * until it is acknowledged; messages left pending by a crashed worker are claimed again by another one.
+ * A settlement that failed transiently is acknowledged and scheduled in the retry sorted set, scored by when
+ * it is due, and added to the stream again once due; one that is out of attempts goes to the dead-letter stream.
+ * A queued marker (with the requeue delay as TTL) is kept per transaction while it is in the pipeline,
+ * so the requeue sweep only adds transactions that were never published (or got lost) to the stream again;
+ * the marker of a dead-lettered transaction never expires, so it is left alone until it is handled.
+ */
+export interface SettlementMessage {
+    id: string; // Stream entry ID, to acknowledge
+    transactionId: string;
+    attempt: number;
+}
+
+class SettlementStream {
+    static isEnabled(): boolean {
+        return (process.env.SETTLEMENT_ENABLED || 'TRUE').toUpperCase() === 'TRUE';
+    }
+
+    static getStreamKey(): string {
+        return process.env.SETTLEMENT_STREAM || 'settlement:transactions';
+    }
+
+    static getDeadLetterKey(): string {
+        return `${this.getStreamKey()}:dead-letter`;
+    }
+
+    static getGroupName(): string {
+        return process.env.SETTLEMENT_GROUP || 'settlement-workers';
+    }
+
+    static getRequeueAfterMs(): number {
+        return Number(process.env.SETTLEMENT_REQUEUE_AFTER_MS) || 900000; // Default delay of 15 minutes
+    }
+
+    private static getMaxLength(): number {
+        return Number(process.env.SETTLEMENT_STREAM_MAX_LENGTH) || 100000;
+    }
+
+    private static getRetryKey(): string {
+        return `${this.getStreamKey()}:retry`;
+    }
+
+    private static getQueuedKey(transactionId: string): string {
+        return `${this.getStreamKey()}:queued:${transactionId}`;
+    }
+
+    private static getLockKey(transactionId: string): string {
+        return `${this.getStreamKey()}:lock:${transactionId}`;
+    }
+
+    // Add a transaction to the stream, and mark it as queued
+    static async publish(transactionId: string): Promise<void> {
+        await RedisConfig.execute(async (redis) => {
+            await redis.multi()
+                .xadd(this.getStreamKey(), 'MAXLEN', '~', this.getMaxLength(), '*', 'transactionId', transactionId, 'attempt', '1')
+                .set(this.getQueuedKey(transactionId), Date.now().toString(), 'PX', this.getRequeueAfterMs())
+                .exec();
+        });
+    }
+
+    // Whether a transaction is in the pipeline (or dead-lettered), so it must not be added to the stream again
+    static async isQueued(transactionId: string): Promise<boolean> {
+        return (await RedisConfig.execute((redis) => redis.exists(this.getQueuedKey(transactionId)))) === 1;
+    }
+
+    // Create the consumer group if it does not exist yet, reading the stream from its start
+    static async ensureGroup(): Promise<void> {
+        await RedisConfig.execute(async (redis) => {
+            try {
+                await redis.xgroup('CREATE', this.getStreamKey(), this.getGroupName(), '0', 'MKSTREAM');
+            } catch (error) {
+                if (!String(error).includes('BUSYGROUP')) {
+                    throw error;
+                }
+            }
+        });
+    }
+
+    // Read new messages for the given consumer, waiting up to blockMs for one to arrive
+    static async read(consumer: string, count: number, blockMs: number): Promise<SettlementMessage[]> {
+        const result = await RedisConfig.execute((redis) => redis.xreadgroup(
+            'GROUP', this.getGroupName(), consumer, 'COUNT', count, 'BLOCK', blockMs, 'STREAMS', this.getStreamKey(), '>'
+        )) as [string, [string, string[]][]][] | null;
+        if (!result || result.length === 0) {
+            return [];
+        }
+        return result[0][1].map(([id, fields]) => this.toMessage(id, fields));
+    }
+
+    // Claim the messages left pending by other consumers for longer than minIdleMs (e.g. a crashed worker)
+    static async claimStale(consumer: string, minIdleMs: number, count: number): Promise<SettlementMessage[]> {
+        const result = await RedisConfig.execute((redis) => redis.xautoclaim(
+            this.getStreamKey(), this.getGroupName(), consumer, minIdleMs, '0-0', 'COUNT', count
+        )) as [string, ([string, string[]] | null)[]];
+        return result[1]
+            .filter((entry): entry is [string, string[]] => entry !== null)
+            .map(([id, fields]) => this.toMessage(id, fields));
+    }
+
+    static async ack(message: SettlementMessage): Promise<void> {
+        await RedisConfig.execute((redis) => redis.xack(this.getStreamKey(), this.getGroupName(), message.id));
+    }
+
+    // Schedule the next attempt of a settlement after the given delay, and acknowledge the current one
+    static async retry(message: SettlementMessage, delayMs: number): Promise<void> {
+        const retry = JSON.stringify({ transactionId: message.transactionId, attempt: message.attempt + 1 });
+        await RedisConfig.execute(async (redis) => {
+            await redis.multi()
+                .zadd(this.getRetryKey(), Date.now() + delayMs, retry)
+                .set(this.getQueuedKey(message.transactionId), Date.now().toString(), 'PX', this.getRequeueAfterMs() + delayMs)
+                .xack(this.getStreamKey(), this.getGroupName(), message.id)
+                .exec();
+        });
+    }
+
+    // Add the retries that are due to the stream, returning how many were added
+    static async promoteDueRetries(limit: number): Promise<number> {
+        return RedisConfig.execute(async (redis) => {
+            // Moved atomically, so a retry is never added twice or lost by concurrent workers
+            const script = `
+                local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+                for _, member in ipairs(due) do
+                    local retry = cjson.decode(member)
+                    redis.call('XADD', KEYS[2], 'MAXLEN', '~', ARGV[3], '*', 'transactionId', retry.transactionId, 'attempt', tostring(retry.attempt))
+                    redis.call('ZREM', KEYS[1], member)
+                end
+                return #due
+            `;
+            return await redis.eval(script, 2, this.getRetryKey(), this.getStreamKey(), Date.now(), limit, this.getMaxLength()) as number;
+        });
+    }
+
+    // Move a settlement that cannot be processed to the dead-letter stream, and acknowledge it
+    // The transaction stays marked as queued, so it is not added to the stream again until it is handled
+    static async deadLetter(message: SettlementMessage, reason: string): Promise<void> {
+        await RedisConfig.execute(async (redis) => {
+            await redis.multi()
+                .xadd(this.getDeadLetterKey(), '*',
+                    'transactionId', message.transactionId, 'attempts', message.attempt.toString(),
+                    'reason', reason, 'messageId', message.id, 'failedAt', new Date().toISOString())
+                .set(this.getQueuedKey(message.transactionId), Date.now().toString())
+                .xack(this.getStreamKey(), this.getGroupName(), message.id)
+                .exec();
+        });
+    }
+
+    // Lock a transaction while it is being settled, so two deliveries of it are never processed at the same time
+    static async lock(transactionId: string, token: string, ttlSeconds: number): Promise<boolean> {
+        return RedisUtil.setIfNotExists(this.getLockKey(transactionId), token, ttlSeconds);
+    }
+
+    static async unlock(transactionId: string, token: string): Promise<void> {
+        await RedisUtil.delIfEquals(this.getLockKey(transactionId), token);
+    }
+
+    private static toMessage(id: string, fields: string[]): SettlementMessage {
+        const values: Record<string, string> = {};
+        for (let i = 0; i < fields.length; i += 2) {
+            values[fields[i]] = fields[i + 1];
+        }
+        return { id, transactionId: values.transactionId || '', attempt: Number(values.attempt) || 1 };
+    }
+}
+
+export default SettlementStream;
@@ -0,0 +1,67 @@
+import "dotenv/config";
+
+import DatabaseConfig from "./config/db.config";
+import Logger from "./utils/logger.util";
+import RedisConfig from "./config/redis.config";
+import SettlementWorker from "./jobs/settlement-worker.job";
+
+/**
+ * Entrypoint of the settlement worker process, run next to the API (see src/index.ts).
+ * It settles the transactions published to the settlement stream, and can be scaled to several instances,
+ * which share the messages through their consumer group.
+ */
+
+// Connect to Redis, which holds the settlement stream
+// If Redis is unavailable, the worker keeps polling until the circuit breaker sees it recover
+RedisConfig.connect()
+    .then(() => Logger.info("Redis connected successfully"))
+    .catch((error) => Logger.warn(`Redis unavailable, settlements will wait for it to recover: ${error}`));
+
+// Connect to the database
+try {
+    DatabaseConfig.connect();
+    Logger.info("Database connected successfully");
+} catch (error) {
+    Logger.error(`Error connecting to the database: ${error}`);
+    process.exit(1); // Exit with error
+}
+
+// Start consuming the settlement stream
+SettlementWorker.start();
+
+// Graceful shutdown
+const shutdown = async () => {
+    Logger.info("\nShutting down gracefully...");
+
+    // Exit anyway if a settlement in progress does not finish in time
+    setTimeout(() => {
+        Logger.error("Forcing shutdown after timeout");
+        process.exit(1); // Exit with error
+    }, 10000).unref(); // 10 seconds timeout
+
+    try {
+        // 1. Stop consuming, once the settlement in progress has finished
+        await SettlementWorker.stop();
+
+        // 2. Close database connection
+        if (await DatabaseConfig.isConnected()) {
+            await DatabaseConfig.disconnect();
+            Logger.info("Database connection closed");
+        }
+
+        // 3. Close Redis connection
+        if (await RedisConfig.ping()) {
+            await RedisConfig.quit();
+        }
+        Logger.info("Redis connection closed");
+
+        process.exit(0); // Exit with success
+    } catch (err) {
+        Logger.error("Error stopping the worker:", err);
+        process.exit(1); // Exit with error
+    }
+};
+
+// Handle termination signals
+process.on("SIGINT", shutdown); // Ctrl+C
+process.on("SIGTERM", shutdown); // Heroku or other platforms
@@ -0,0 +1,74 @@
+import DatabaseConfig from '../../src/config/db.config';
+import Consumer from '../../src/models/consumer.model';
+import Transaction from '../../src/models/transaction.model';
+
+// Number of units of work run at the same time, more than the connection pool holds
+const PARALLEL_UNITS = 100;
+const FAILING_UNIT = 42;
+
+describe('DatabaseConfig.withTransaction', () => {
+    let consumer: Consumer;
+
+    beforeAll(async () => {
+        const sequelize = await DatabaseConfig.getSequelizeInstance();
+        sequelize.options.logging = false; // Sequelize logs the SQL outside production
+        await DatabaseConfig.connect();
+        await sequelize.sync({ force: true });
+        consumer = await Consumer.create({ currency: 'USD' });
+    });
+
+    afterAll(async () => {
+        await (await DatabaseConfig.getSequelizeInstance()).close();
+    });
+
+    it('commits each parallel unit of work on its own, and rolls back only the one that fails', async () => {
+        const committed: number[] = [];
+
+        const results = await Promise.allSettled(Array.from({ length: PARALLEL_UNITS }, (_, unit) =>
+            DatabaseConfig.withTransaction(async (t) => {
+                const transaction = await Transaction.create({
+                    type: 'payment',
+                    amount: String(unit + 1), // Identifies the unit that created the row
+                    currency: 'USD',
+                    status: 'pending',
+                    consumerId: consumer.id,
+                }, { transaction: t });
+
+                // Let the other units run, so their transactions interleave
+                await new Promise((resolve) => setImmediate(resolve));
+                expect(await DatabaseConfig.getTransaction()).toBe(t);
+                DatabaseConfig.onCommit(() => { committed.push(unit); });
+
+                if (unit === FAILING_UNIT) {
+                    throw new Error(`Unit ${unit} failed`);
+                }
+                return transaction.id;
+            })
+        ));
+
+        // Only the failing unit was rejected, with its own error
+        results.forEach((result, unit) => {
+            if (unit === FAILING_UNIT) {
+                expect(result).toEqual({ status: 'rejected', reason: new Error(`Unit ${unit} failed`) });
+            } else {
+                expect(result.status).toBe('fulfilled');
+            }
+        });
+
+        // Every other unit committed exactly the row it created
+        const rows = await Transaction.findAll({ where: { consumerId: consumer.id } });
+        expect(rows).toHaveLength(PARALLEL_UNITS - 1);
+        const amountsById = new Map(rows.map((row) => [row.id, row.amount]));
+        results.forEach((result, unit) => {
+            if (result.status === 'fulfilled') {
+                expect(amountsById.get(result.value)).toBe(String(unit + 1));
+            }
+        });
+        expect(rows.map((row) => row.amount)).not.toContain(String(FAILING_UNIT + 1));
+
+        // The commit hooks ran for the committed units only
+        expect(committed.sort((a, b) => a - b)).toEqual(
+            Array.from({ length: PARALLEL_UNITS }, (_, unit) => unit).filter((unit) => unit !== FAILING_UNIT)
+        );
+    });
+});
@@ -0,0 +1,43 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import EmbeddedPostgres from 'embedded-postgres';
+
+/**
+ * Start an embedded PostgreSQL server for the test run, on a free port and in a throwaway data directory,
+ * and point the DB_* environment variables at it, so tests never touch a development database.
+ * It is stopped (and its data directory removed) by the global teardown.
+ */
+const getFreePort = () => new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, () => {
+        const { port } = server.address();
+        server.close(() => resolve(port));
+    });
+});
+
+export default async () => {
+    const port = await getFreePort();
+    const database = new EmbeddedPostgres({
+        databaseDir: path.join(os.tmpdir(), `idempotency-demo-test-${process.pid}-${Date.now()}`),
+        user: 'postgres',
+        password: 'postgres',
+        port,
+        persistent: false,
+        createPostgresUser: true, // PostgreSQL refuses to run as root
+        onLog: () => {},
+    });
+
+    await database.initialise();
+    await database.start();
+    await database.createDatabase('idempotency_demo_test');
+    globalThis.__TEST_DATABASE__ = database;
+
+    process.env.DB_HOST = 'localhost';
+    process.env.DB_PORT = String(port);
+    process.env.DB_NAME = 'idempotency_demo_test';
+    process.env.DB_USER = 'postgres';
+    process.env.DB_PASS = 'postgres';
+};
@@ -0,0 +1,6 @@
+// Stop the embedded PostgreSQL server started by the global setup
+export default async () => {
+    if (globalThis.__TEST_DATABASE__) {
+        await globalThis.__TEST_DATABASE__.stop();
+    }
+};
@@ -0,0 +1,8 @@
+/**
+ * Environment of every test file, set before the modules under test read it:
+ * the in-memory idempotency store and no settlement stream (no Redis needed), and only errors logged.
+ */
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = 'error';
+process.env.IDEMPOTENCY_STORE = 'memory';
+process.env.SETTLEMENT_ENABLED = 'FALSE';
@@ -0,0 +1,261 @@
+import Consumer from '../../src/models/consumer.model';
+import DatabaseConfig from '../../src/config/db.config';
+import LeaderLock from '../../src/utils/leader-lock.util';
+import LedgerEntry from '../../src/models/ledger-entry.model';
+import Logger from '../../src/utils/logger.util';
+import SettlementProcessorConfig from '../../src/config/settlement-processor.config';
+import SettlementStream, { SettlementMessage } from '../../src/utils/settlement-stream.util';
+import SettlementWorker from '../../src/jobs/settlement-worker.job';
+import Transaction from '../../src/models/transaction.model';
+import TransactionService from '../../src/services/transaction.service';
+import { SettlementProcessor, SettlementRequest, SettlementResult } from '../../src/types/settlement.interface';
+import { TransactionRequest } from '../../src/dtos/transaction-request.dto';
+
+/**
+ * Tests of the settlement worker against the database, with the settlement stream kept in memory (no Redis needed).
+ * The in-memory stream keeps the semantics the worker relies on: a delivered message stays pending until it is acknowledged,
+ * retries and dead letters acknowledge it, and the queued marker of a dead-lettered transaction stays.
+ */
+class InMemorySettlementStream {
+    public stream: SettlementMessage[] = [];
+    public pending: Map<string, SettlementMessage> = new Map();
+    public retryDelays: number[] = [];
+    public deadLetters: { transactionId: string; attempts: number; reason: string }[] = [];
+    public queued: Set<string> = new Set();
+    public locks: Map<string, string> = new Map();
+    private retries: { transactionId: string; attempt: number }[] = [];
+    private nextId = 1;
+
+    install(): void {
+        jest.spyOn(SettlementStream, 'ensureGroup').mockResolvedValue();
+        jest.spyOn(SettlementStream, 'claimStale').mockResolvedValue([]);
+        jest.spyOn(SettlementStream, 'publish').mockImplementation(async (transactionId) => {
+            this.add(transactionId, 1);
+            this.queued.add(transactionId);
+        });
+        jest.spyOn(SettlementStream, 'isQueued').mockImplementation(async (transactionId) => this.queued.has(transactionId));
+        jest.spyOn(SettlementStream, 'read').mockImplementation(async (_, count) => {
+            const messages = this.stream.splice(0, count);
+            messages.forEach((message) => this.pending.set(message.id, message));
+            return messages;
+        });
+        jest.spyOn(SettlementStream, 'ack').mockImplementation(async (message) => {
+            this.pending.delete(message.id);
+        });
+        // Retries are promoted on the next poll, whatever their delay, which is recorded instead of waited for
+        jest.spyOn(SettlementStream, 'retry').mockImplementation(async (message, delayMs) => {
+            this.retries.push({ transactionId: message.transactionId, attempt: message.attempt + 1 });
+            this.retryDelays.push(delayMs);
+            this.pending.delete(message.id);
+        });
+        jest.spyOn(SettlementStream, 'promoteDueRetries').mockImplementation(async () => {
+            const due = this.retries.splice(0);
+            due.forEach((retry) => this.add(retry.transactionId, retry.attempt));
+            return due.length;
+        });
+        jest.spyOn(SettlementStream, 'deadLetter').mockImplementation(async (message, reason) => {
+            this.deadLetters.push({ transactionId: message.transactionId, attempts: message.attempt, reason });
+            this.queued.add(message.transactionId);
+            this.pending.delete(message.id);
+        });
+        jest.spyOn(SettlementStream, 'lock').mockImplementation(async (transactionId, token) => {
+            if (this.locks.has(transactionId)) {
+                return false;
+            }
+            this.locks.set(transactionId, token);
+            return true;
+        });
+        jest.spyOn(SettlementStream, 'unlock').mockImplementation(async (transactionId, token) => {
+            if (this.locks.get(transactionId) === token) {
+                this.locks.delete(transactionId);
+            }
+        });
+    }
+
+    add(transactionId: string, attempt: number): SettlementMessage {
+        const message = { id: `${this.nextId++}-0`, transactionId, attempt };
+        this.stream.push(message);
+        return message;
+    }
+}
+
+// A processor settling every transaction with the given outcome, or throwing it, after a short delay
+class StubProcessor implements SettlementProcessor {
+    public readonly name = 'stub';
+    public requests: SettlementRequest[] = [];
+
+    constructor(private outcome: SettlementResult | Error) {}
+
+    async settle(request: SettlementRequest): Promise<SettlementResult> {
+        this.requests.push(request);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        if (this.outcome instanceof Error) {
+            throw this.outcome;
+        }
+        return this.outcome;
+    }
+}
+
+describe('SettlementWorker', () => {
+    const originalProcessor = SettlementProcessorConfig.getProcessor();
+    let stream: InMemorySettlementStream;
+
+    beforeAll(async () => {
+        const sequelize = await DatabaseConfig.getSequelizeInstance();
+        sequelize.options.logging = false; // Sequelize logs the SQL outside production
+        await DatabaseConfig.connect();
+        await sequelize.sync({ force: true });
+    });
+
+    afterAll(async () => {
+        SettlementProcessorConfig.setProcessor(originalProcessor);
+        await (await DatabaseConfig.getSequelizeInstance()).close();
+    });
+
+    beforeEach(() => {
+        stream = new InMemorySettlementStream();
+        stream.install();
+        SettlementWorker['running'] = true; // Polled by the tests instead of its loop
+    });
+
+    afterEach(() => {
+        SettlementWorker['running'] = false;
+        jest.restoreAllMocks();
+    });
+
+    const poll = (): Promise<void> => SettlementWorker['poll']();
+
+    const createPendingTransaction = async (type: TransactionRequest['type'], balance: string): Promise<Transaction> => {
+        const consumer = await Consumer.create({ currency: 'USD', balance });
+        const transaction = await TransactionService.createTransaction({ type, amount: '10.00', currency: 'USD', consumerId: consumer.id });
+        return await Transaction.findByPk(transaction.id) as Transaction;
+    };
+
+    const getBalance = async (transaction: Transaction): Promise<string> => (await Consumer.findByPk(transaction.consumerId) as Consumer).balance;
+
+    const getLedgerAmounts = async (transaction: Transaction): Promise<string[]> => (await LedgerEntry.findAll({
+        where: { transactionId: transaction.id, account: transaction.consumerId },
+        order: [['id', 'ASC']],
+    })).map((entry) => entry.amount);
+
+    describe('a message delivered twice', () => {
+        it('settles the transaction once when the deliveries follow each other', async () => {
+            const processor = new StubProcessor({ status: 'completed' });
+            SettlementProcessorConfig.setProcessor(processor);
+            const payment = await createPendingTransaction('payment', '0');
+
+            // The same message again, e.g. after a worker crashed before acknowledging it
+            const message = stream.add(payment.id, 1);
+            stream.stream.push({ ...message });
+            await poll();
+
+            expect((await payment.reload()).status).toBe('completed');
+            expect(await getBalance(payment)).toBe('1000');
+            expect(await getLedgerAmounts(payment)).toEqual(['1000']);
+            expect(processor.requests).toHaveLength(1);
+            expect(stream.pending.size).toBe(0);
+        });
+
+        it('leaves the second delivery pending while the first one holds the lock', async () => {
+            const processor = new StubProcessor({ status: 'completed' });
+            SettlementProcessorConfig.setProcessor(processor);
+            const payment = await createPendingTransaction('payment', '0');
+
+            // Two deliveries read at the same time, e.g. by two workers
+            stream.add(payment.id, 1);
+            stream.add(payment.id, 1);
+            const [first, second] = await SettlementStream.read('worker', 2, 0);
+            await Promise.all([SettlementWorker['handle'](first), SettlementWorker['handle'](second)]);
+
+            // The second delivery is left unacknowledged, and skipped once claimed again since the transaction is settled
+            expect(processor.requests).toHaveLength(1);
+            expect([...stream.pending.values()]).toEqual([second]);
+            await SettlementWorker['handle'](second);
+            expect(processor.requests).toHaveLength(1);
+            expect(stream.pending.size).toBe(0);
+            expect(await getLedgerAmounts(payment)).toEqual(['1000']);
+        });
+
+        it('settles the transaction once even when both deliveries get past the lock, e.g. after it expired', async () => {
+            const processor = new StubProcessor({ status: 'completed' });
+            SettlementProcessorConfig.setProcessor(processor);
+            jest.spyOn(SettlementStream, 'lock').mockResolvedValue(true);
+            const payment = await createPendingTransaction('payment', '0');
+
+            const message = stream.add(payment.id, 1);
+            await Promise.all([SettlementWorker['handle'](message), SettlementWorker['handle']({ ...message })]);
+
+            // Both reached the processor, but the row lock let only one of them change the status
+            expect(processor.requests).toHaveLength(2);
+            expect((await payment.reload()).status).toBe('completed');
+            expect(await getBalance(payment)).toBe('1000');
+            expect(await getLedgerAmounts(payment)).toEqual(['1000']);
+            expect(stream.retryDelays).toEqual([]);
+            expect(stream.deadLetters).toEqual([]);
+        });
+    });
+
+    describe('a settlement failing transiently', () => {
+        it('is retried with exponential backoff, then dead-lettered with the transaction left pending', async () => {
+            const processor = new StubProcessor(new Error('Provider timeout'));
+            SettlementProcessorConfig.setProcessor(processor);
+            jest.spyOn(Logger, 'error').mockImplementation(() => Logger); // Dead letters are logged, which the test expects
+            const withdrawal = await createPendingTransaction('withdrawal', '5000');
+            await SettlementStream.publish(withdrawal.id);
+
+            for (let attempt = 1; attempt <= 5; attempt++) {
+                await poll();
+            }
+
+            expect(processor.requests.map((request) => request.attempt)).toEqual([1, 2, 3, 4, 5]);
+            expect(stream.retryDelays).toEqual([1000, 2000, 4000, 8000]);
+            expect(stream.deadLetters).toEqual([{ transactionId: withdrawal.id, attempts: 5, reason: 'Provider timeout' }]);
+            expect(stream.stream).toEqual([]);
+            expect(stream.pending.size).toBe(0);
+
+            // The withdrawal is neither settled nor given back, and is not requeued until the dead letter is handled
+            expect((await withdrawal.reload()).status).toBe('pending');
+            expect(await getBalance(withdrawal)).toBe('4000');
+            expect(await getLedgerAmounts(withdrawal)).toEqual(['-1000']);
+            expect(await SettlementStream.isQueued(withdrawal.id)).toBe(true);
+        });
+
+        it('settles on a later attempt once the processor recovers', async () => {
+            const processor = new StubProcessor(new Error('Provider timeout'));
+            SettlementProcessorConfig.setProcessor(processor);
+            const withdrawal = await createPendingTransaction('withdrawal', '5000');
+            await SettlementStream.publish(withdrawal.id);
+
+            await poll();
+            processor['outcome'] = { status: 'failed', reason: 'Declined' };
+            await poll();
+
+            expect(processor.requests.map((request) => request.attempt)).toEqual([1, 2]);
+            expect(stream.deadLetters).toEqual([]);
+            // A failed withdrawal gives the amount back
+            expect((await withdrawal.reload()).status).toBe('failed');
+            expect(await getBalance(withdrawal)).toBe('5000');
+            expect(await getLedgerAmounts(withdrawal)).toEqual(['-1000', '1000']);
+        });
+    });
+
+    describe('the requeue sweep', () => {
+        it('publishes again the pending transactions that are not in the pipeline anymore', async () => {
+            jest.spyOn(LeaderLock.prototype, 'acquire').mockResolvedValue(true);
+            const lost = await createPendingTransaction('payment', '0');
+            const deadLettered = await createPendingTransaction('payment', '0');
+            const recent = await createPendingTransaction('payment', '0');
+            stream.queued.add(deadLettered.id);
+
+            // Pending for longer than the requeue delay
+            const sequelize = await DatabaseConfig.getSequelizeInstance();
+            await sequelize.query(`UPDATE transactions SET "createdAt" = NOW() - INTERVAL '1 hour' WHERE id IN (:ids)`, {
+                replacements: { ids: [lost.id, deadLettered.id] },
+            });
+            await SettlementWorker.requeue();
+
+            expect(stream.stream.map((message) => message.transactionId)).toEqual([lost.id]);
+            expect(stream.queued.has(recent.id)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+import AppError from '../../src/exceptions/app-error.exception';
+import IdempotencyLock from '../../src/utils/idempotency-lock.util';
+import catchAsync from '../../src/utils/catch-async.util';
+import errorHandler from '../../src/middlewares/error.middleware';
+import idempotency from '../../src/middlewares/idempotency.middleware';
+
+/**
+ * Route-level tests of the idempotency middleware, on the in-memory store.
+ * The handler answers with the outcome named in the body, and counts how many times it was executed.
+ */
+describe('idempotency middleware', () => {
+    let server: Server;
+    let baseUrl: string;
+    let executions = 0;
+
+    const handler = async (req: Request, res: Response): Promise<void> => {
+        executions++;
+        if (req.body.outcome === 'slow') {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+        }
+        if (req.body.outcome === 'invalid') {
+            throw AppError.UnprocessableEntity("Validation errors occurred", "amount must be positive");
+        }
+        if (req.body.outcome === 'crash') {
+            throw new Error("Database connection lost");
+        }
+        res.status(201).json({ message: "Created", execution: executions });
+    };
+
+    // Stands in for an authentication middleware, authenticating the client named in the Authorization header
+    const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+        res.locals.principal = req.headers.authorization;
+        next();
+    };
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.post('/default', idempotency(), catchAsync(handler));
+        app.post('/authenticated', authenticate, idempotency(), catchAsync(handler));
+        app.post('/cache-errors', idempotency({ cacheErrors: true }), catchAsync(handler));
+        app.post('/deadline', idempotency({ timeout: 50 }), catchAsync(handler));
+        app.use(errorHandler);
+
+        server = await new Promise<Server>((resolve) => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        executions = 0;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined); // The error handler logs unexpected errors
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Resolve once the middleware has released the lease of the request in flight, i.e. once its outcome is settled
+    const whenSettled = (): Promise<void> => {
+        const release = IdempotencyLock.release.bind(IdempotencyLock);
+        return new Promise((resolve) => {
+            jest.spyOn(IdempotencyLock, 'release').mockImplementationOnce(async (key, token) => {
+                await release(key, token);
+                resolve();
+            });
+        });
+    };
+
+    const send = async (path: string, key: string, outcome: string, headers: Record<string, string> = {}): Promise<{ status: number; replayed: boolean; contentType: string | null; body: unknown }> => {
+        const settled = whenSettled();
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json', 'Idempotency-Key': key },
+            body: JSON.stringify({ outcome }),
+        });
+        const body = await response.json();
+        if (response.headers.get('idempotent-replayed') !== 'true') {
+            await settled;
+        }
+        return {
+            status: response.status,
+            replayed: response.headers.get('idempotent-replayed') === 'true',
+            contentType: response.headers.get('content-type'),
+            body,
+        };
+    };
+
+    it('replays a 422 with cacheErrors, without executing the handler again', async () => {
+        const first = await send('/cache-errors', 'key-422', 'invalid');
+        const retry = await send('/cache-errors', 'key-422', 'invalid');
+
+        expect(first).toMatchObject({ status: 422, replayed: false });
+        expect(retry).toEqual({ ...first, replayed: true });
+        expect(executions).toBe(1);
+    });
+
+    it('does not store a 500 with cacheErrors, so a retry executes again', async () => {
+        const first = await send('/cache-errors', 'key-500', 'crash');
+        const retry = await send('/cache-errors', 'key-500', 'crash');
+
+        expect(first).toMatchObject({ status: 500, replayed: false });
+        expect(retry).toMatchObject({ status: 500, replayed: false });
+        expect(executions).toBe(2);
+    });
+
+    it('does not store a 422 by default, so a retry executes again', async () => {
+        const first = await send('/default', 'key-422', 'invalid');
+        const retry = await send('/default', 'key-422', 'invalid');
+
+        expect(first).toMatchObject({ status: 422, replayed: false });
+        expect(retry).toMatchObject({ status: 422, replayed: false });
+        expect(executions).toBe(2);
+    });
+
+    it('replays a success by default', async () => {
+        const first = await send('/default', 'key-201', 'success');
+        const retry = await send('/default', 'key-201', 'success');
+
+        expect(first).toEqual({ status: 201, replayed: false, contentType: 'application/json; charset=utf-8', body: { message: "Created", execution: 1 } });
+        expect(retry).toEqual({ ...first, replayed: true });
+        expect(executions).toBe(1);
+    });
+
+    it('scopes keys by the authenticated principal', async () => {
+        const first = await send('/authenticated', 'key-principal', 'success', { Authorization: 'client-a' });
+        const otherClient = await send('/authenticated', 'key-principal', 'success', { Authorization: 'client-b' });
+        const retry = await send('/authenticated', 'key-principal', 'success', { Authorization: 'client-a' });
+
+        expect(otherClient).toMatchObject({ status: 201, replayed: false, body: { execution: 2 } });
+        expect(retry).toEqual({ ...first, replayed: true });
+        expect(executions).toBe(2);
+    });
+
+    it('does not scope keys by a tenant header the client sends', async () => {
+        const first = await send('/default', 'key-tenant', 'success', { 'X-Tenant-Id': 'tenant-a' });
+        const otherTenant = await send('/default', 'key-tenant', 'success', { 'X-Tenant-Id': 'tenant-b' });
+
+        expect(otherTenant).toEqual({ ...first, replayed: true });
+        expect(executions).toBe(1);
+    });
+
+    it('replays a response settled after the deadline as JSON', async () => {
+        const first = await send('/deadline', 'key-late', 'slow');
+        const retry = await send('/deadline', 'key-late', 'slow');
+
+        expect(first).toMatchObject({ status: 504, replayed: false });
+        expect(retry).toEqual({ status: 201, replayed: true, contentType: 'application/json; charset=utf-8', body: { message: "Created", execution: 1 } });
+        expect(executions).toBe(1);
+    });
+
+    it('replays a response settled after the client disconnected as JSON', async () => {
+        const settled = whenSettled();
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+        await expect(fetch(`${baseUrl}/default`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-disconnected' },
+            body: JSON.stringify({ outcome: 'slow' }),
+            signal: controller.signal,
+        })).rejects.toThrow();
+        await settled;
+
+        const retry = await send('/default', 'key-disconnected', 'slow');
+
+        expect(retry).toEqual({ status: 201, replayed: true, contentType: 'application/json; charset=utf-8', body: { message: "Created", execution: 1 } });
+        expect(executions).toBe(1);
+    });
+});
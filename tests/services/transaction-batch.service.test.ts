@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+
+import BatchIdempotency from '../../src/utils/batch-idempotency.util';
+import Consumer from '../../src/models/consumer.model';
+import DatabaseConfig from '../../src/config/db.config';
+import Transaction from '../../src/models/transaction.model';
+import TransactionBatchService from '../../src/services/transaction-batch.service';
+import { TransactionBatchRequest } from '../../src/dtos/transaction-request.dto';
+
+// Number of pairs of batches run at the same time
+const CONCURRENT_PAIRS = 10;
+
+describe('TransactionBatchService all-or-nothing batches', () => {
+    let consumers: Consumer[];
+
+    beforeAll(async () => {
+        const sequelize = await DatabaseConfig.getSequelizeInstance();
+        sequelize.options.logging = false; // Sequelize logs the SQL outside production
+        await DatabaseConfig.connect();
+        await sequelize.sync({ force: true });
+        consumers = await Promise.all([1, 2, 3].map(() => Consumer.create({ currency: 'USD' })));
+    });
+
+    afterAll(async () => {
+        await (await DatabaseConfig.getSequelizeInstance()).close();
+    });
+
+    // The idempotency of the items of a batch sent to POST /api/transactions/batch
+    const itemIdempotency = (): BatchIdempotency => {
+        const res = { locals: {}, get: () => undefined } as unknown as Response;
+        const req = { headers: {}, ip: '127.0.0.1', method: 'POST', baseUrl: '/api/transactions', path: '/batch', res } as unknown as Request;
+        return new BatchIdempotency(req, res, { method: 'POST', route: '/api/transactions' });
+    };
+
+    // An all-or-nothing batch of one payment per consumer, in the given order
+    const paymentBatch = (batchConsumers: Consumer[]): TransactionBatchRequest => ({
+        mode: 'all-or-nothing',
+        items: batchConsumers.map((consumer) => ({
+            idempotencyKey: crypto.randomUUID(),
+            transaction: { type: 'payment', amount: '10.00', currency: 'USD', consumerId: consumer.id },
+        })),
+    });
+
+    it('creates concurrent batches locking the same consumers in opposite orders without deadlocking', async () => {
+        const batches = Array.from({ length: CONCURRENT_PAIRS }, () => [
+            paymentBatch(consumers),
+            paymentBatch([...consumers].reverse()),
+        ]).flat();
+
+        const responses = await Promise.all(batches.map((batch) => TransactionBatchService.createTransactionBatch(batch, itemIdempotency())));
+
+        for (const response of responses) {
+            expect(response.summary).toMatchObject({ created: consumers.length, failed: 0, skipped: 0 });
+        }
+        expect(await Transaction.count()).toBe(batches.length * consumers.length);
+    });
+});
@@ -0,0 +1,51 @@
+import Consumer from '../../src/models/consumer.model';
+import DatabaseConfig from '../../src/config/db.config';
+import SettlementStream from '../../src/utils/settlement-stream.util';
+import Transaction from '../../src/models/transaction.model';
+import TransactionService from '../../src/services/transaction.service';
+
+describe('TransactionService refunds', () => {
+    let consumer: Consumer;
+    let payment: Transaction;
+
+    beforeAll(async () => {
+        const sequelize = await DatabaseConfig.getSequelizeInstance();
+        sequelize.options.logging = false; // Sequelize logs the SQL outside production
+        await DatabaseConfig.connect();
+        await sequelize.sync({ force: true });
+        consumer = await Consumer.create({ currency: 'USD', balance: '10000' });
+        payment = await Transaction.create({ type: 'payment', amount: '10000', currency: 'USD', status: 'completed', consumerId: consumer.id });
+    });
+
+    afterAll(async () => {
+        await (await DatabaseConfig.getSequelizeInstance()).close();
+    });
+
+    let published: string[];
+
+    beforeEach(() => {
+        process.env.SETTLEMENT_ENABLED = 'TRUE';
+        published = [];
+        jest.spyOn(SettlementStream, 'publish').mockImplementation(async (transactionId) => {
+            published.push(transactionId);
+        });
+    });
+
+    afterEach(() => {
+        process.env.SETTLEMENT_ENABLED = 'FALSE';
+        jest.restoreAllMocks();
+    });
+
+    it('publishes a refund to the settlement stream once it has been committed', async () => {
+        const refund = await TransactionService.refundTransaction(payment.id, { amount: '25.00' });
+
+        expect(refund).toMatchObject({ type: 'refund', amount: '25.00', status: 'pending', parentTransactionId: payment.id });
+        expect(published).toEqual([refund.id]);
+    });
+
+    it('does not publish a refund that is rolled back', async () => {
+        await expect(TransactionService.refundTransaction(payment.id, { amount: '1000.00' })).rejects.toMatchObject({ statusCode: 422 });
+
+        expect(published).toEqual([]);
+    });
+});
@@ -0,0 +1,94 @@
+import { CURRENCY_EXPONENTS, formatAmount, isDecimalAmount, SUPPORTED_CURRENCIES, toMinorUnits } from '../../src/utils/amount.util';
+
+describe('toMinorUnits', () => {
+    it.each([
+        ['10.5', 'USD', '1050'],
+        ['10.50', 'USD', '1050'],
+        ['0.01', 'EUR', '1'],
+        ['1500', 'JPY', '1500'],
+        ['1500', 'USD', '150000'],
+        ['1.234', 'KWD', '1234'],
+        ['0.001', 'BHD', '1'],
+        ['0', 'USD', '0'],
+    ])('converts %p %s to %s minor units', (amount, currency, expected) => {
+        expect(toMinorUnits(amount, currency)).toBe(BigInt(expected));
+    });
+
+    it('converts a JSON number by its shortest decimal form', () => {
+        expect(toMinorUnits(10.5, 'USD')).toBe(BigInt(1050));
+        expect(toMinorUnits(19.99, 'USD')).toBe(BigInt(1999));
+        expect(toMinorUnits(1500, 'JPY')).toBe(BigInt(1500));
+    });
+
+    it('accepts trailing zeros beyond the exponent of the currency', () => {
+        expect(toMinorUnits('1.230', 'USD')).toBe(BigInt(123));
+        expect(toMinorUnits('100.00', 'JPY')).toBe(BigInt(100));
+    });
+
+    it.each([
+        ['0.001', 'USD'],
+        ['1.5', 'JPY'],
+        ['1.2345', 'KWD'],
+        ['10.001', 'EUR'],
+    ])('rejects %p %s instead of rounding it', (amount, currency) => {
+        expect(toMinorUnits(amount, currency)).toBeNull();
+    });
+
+    it('rejects a number that is not exactly representable in minor units', () => {
+        expect(toMinorUnits(0.1 + 0.2, 'USD')).toBeNull(); // 0.30000000000000004
+        expect(toMinorUnits(1e21, 'USD')).toBeNull(); // 1e+21
+    });
+
+    it.each(['-1', '1.', '.5', '1,00', ' 1', '1e3', '0x10', ''])('rejects the malformed amount %p', (amount) => {
+        expect(toMinorUnits(amount, 'USD')).toBeNull();
+    });
+
+    it('accepts amounts up to the largest BIGINT', () => {
+        expect(toMinorUnits('92233720368547758.07', 'USD')).toBe(BigInt('9223372036854775807'));
+        expect(toMinorUnits('92233720368547758.08', 'USD')).toBeNull();
+        expect(toMinorUnits('9223372036854775808', 'JPY')).toBeNull();
+    });
+
+    it('rejects an unsupported currency', () => {
+        expect(() => toMinorUnits('1.00', 'XYZ')).toThrow('Unsupported currency "XYZ"');
+    });
+});
+
+describe('formatAmount', () => {
+    it.each([
+        ['1050', 'USD', '10.50'],
+        ['5', 'USD', '0.05'],
+        ['0', 'USD', '0.00'],
+        ['1500', 'JPY', '1500'],
+        ['1', 'KWD', '0.001'],
+        ['-5', 'USD', '-0.05'],
+        ['-1500', 'JPY', '-1500'],
+        ['9223372036854775807', 'USD', '92233720368547758.07'],
+    ])('formats %s minor units of %s as %p', (minorUnits, currency, expected) => {
+        expect(formatAmount(minorUnits, currency)).toBe(expected);
+        expect(formatAmount(BigInt(minorUnits), currency)).toBe(expected);
+    });
+
+    it('writes exactly the number of fraction digits of each currency', () => {
+        for (const currency of SUPPORTED_CURRENCIES) {
+            const [, fraction = ''] = formatAmount(BigInt(123456789), currency).split('.');
+            expect(fraction).toHaveLength(CURRENCY_EXPONENTS[currency]);
+        }
+    });
+
+    it('round-trips with toMinorUnits in every supported currency', () => {
+        for (const currency of SUPPORTED_CURRENCIES) {
+            expect(toMinorUnits(formatAmount(BigInt(123456789), currency), currency)).toBe(BigInt(123456789));
+        }
+    });
+});
+
+describe('isDecimalAmount', () => {
+    it.each(['10', '10.5', '0.001', 10.5])('accepts %p', (amount) => {
+        expect(isDecimalAmount(amount)).toBe(true);
+    });
+
+    it.each(['-1', '1e3', 'abc', '', 1e21, -1])('rejects %p', (amount) => {
+        expect(isDecimalAmount(amount)).toBe(false);
+    });
+});
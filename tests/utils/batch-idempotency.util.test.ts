@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+
+import BatchIdempotency from '../../src/utils/batch-idempotency.util';
+import { getIdempotencyScope, IdempotencyScopeResolver, resolveConsumerPrincipal, toScopedKey } from '../../src/utils/idempotency-scope.util';
+
+const CONSUMER_A = '8c3a2ed8-7f67-4f0e-aabc-3e2d725f6f01';
+const CONSUMER_B = '9d4b3fe9-8a78-4a1f-bbcd-4f3e836a7a12';
+
+const transaction = (consumerId: string) => ({ type: 'payment', amount: '10.00', currency: 'USD', consumerId });
+
+describe('BatchIdempotency', () => {
+    // A request to POST /api/transactions/batch, or to POST /api/transactions with the given body
+    const request = (path: string, body: unknown): Request => {
+        const res = { locals: {}, get: () => undefined } as unknown as Response;
+        return { headers: {}, ip: '127.0.0.1', method: 'POST', baseUrl: '/api/transactions', path, route: { path }, body, res } as unknown as Request;
+    };
+
+    const itemIdempotency = (scope?: IdempotencyScopeResolver): BatchIdempotency => {
+        const req = request('/batch', { mode: 'best-effort', items: [] });
+        return new BatchIdempotency(req, req.res as Response, { method: 'POST', route: '/api/transactions', scope });
+    };
+
+    // The scoped key of the same transaction request sent on its own, to a route scoped with the given resolver
+    const singleScopedKey = (key: string, body: unknown, scope: IdempotencyScopeResolver): string => {
+        return toScopedKey(getIdempotencyScope(request('', body), key, scope));
+    };
+
+    it('scopes an item with the principal resolver of the route it targets, applied to the item', async () => {
+        const idempotency = itemIdempotency(resolveConsumerPrincipal);
+
+        const claim = await idempotency.claim('key-1', transaction(CONSUMER_A));
+
+        expect(claim.status).toBe('reserved');
+        if (claim.status === 'reserved') {
+            expect(claim.lease.scopedKey).toBe(singleScopedKey('key-1', transaction(CONSUMER_A), resolveConsumerPrincipal));
+            await idempotency.release(claim.lease);
+        }
+    });
+
+    it('gives the same item key sent for two consumers two scopes', async () => {
+        const idempotency = itemIdempotency(resolveConsumerPrincipal);
+
+        const claims = [await idempotency.claim('key-2', transaction(CONSUMER_A)), await idempotency.claim('key-2', transaction(CONSUMER_B))];
+
+        expect(claims.map((claim) => claim.status)).toEqual(['reserved', 'reserved']);
+        for (const claim of claims) {
+            if (claim.status === 'reserved') {
+                await idempotency.release(claim.lease);
+            }
+        }
+    });
+
+    it('scopes items by the authenticated principal without a resolver, like the idempotency middleware', async () => {
+        const idempotency = itemIdempotency();
+
+        await idempotency.claim('key-3', transaction(CONSUMER_A));
+        const claim = await idempotency.claim('key-3', transaction(CONSUMER_B));
+
+        expect(claim.status).toBe('conflict');
+    });
+});
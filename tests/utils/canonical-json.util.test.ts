@@ -0,0 +1,67 @@
+import canonicalize from '../../src/utils/canonical-json.util';
+
+describe('canonicalize', () => {
+    it('sorts object members by key, at every level, without whitespace', () => {
+        expect(canonicalize({ b: 1, a: { d: [3, { f: 1, e: 2 }], c: null } })).toBe('{"a":{"c":null,"d":[3,{"e":2,"f":1}]},"b":1}');
+    });
+
+    it('produces the same string whatever the key order', () => {
+        expect(canonicalize({ amount: '10.00', currency: 'USD', type: 'payment' }))
+            .toBe(canonicalize({ type: 'payment', currency: 'USD', amount: '10.00' }));
+    });
+
+    it('compares keys as UTF-16 code units (RFC 8785 example)', () => {
+        const value = {
+            '€': 'Euro Sign',
+            '\r': 'Carriage Return',
+            'דּ': 'Hebrew Letter Dalet With Dagesh',
+            '1': 'One',
+            '😀': 'Emoji: Grinning Face',
+            '\u0080': 'Control',
+            'ö': 'Latin Small Letter O With Diaeresis',
+        };
+
+        // The emoji sorts before U+FB33, since its first UTF-16 code unit (U+D83D) is lower
+        expect(canonicalize(value)).toBe(
+            '{"\\r":"Carriage Return","1":"One","\u0080":"Control","ö":"Latin Small Letter O With Diaeresis",'
+            + '"€":"Euro Sign","😀":"Emoji: Grinning Face","דּ":"Hebrew Letter Dalet With Dagesh"}'
+        );
+    });
+
+    it('keeps the order of array items', () => {
+        expect(canonicalize([3, 1, 2])).toBe('[3,1,2]');
+    });
+
+    it.each([
+        [100.0, '100'],
+        [4.50, '4.5'],
+        [-0, '0'],
+        [1e21, '1e+21'],
+        [1e-7, '1e-7'],
+        [0.000001, '0.000001'],
+        [333333333.33333329, '333333333.3333333'],
+        [9007199254740992, '9007199254740992'],
+    ])('writes the number %p as %p', (value, expected) => {
+        expect(canonicalize(value)).toBe(expected);
+    });
+
+    it('keeps non-ASCII characters as they are, and escapes control characters', () => {
+        expect(canonicalize({ name: 'Café €5 😀', note: '\u000f\n"\\' })).toBe('{"name":"Café €5 😀","note":"\\u000f\\n\\"\\\\"}');
+    });
+
+    it('leaves out members and replaces array items that JSON cannot represent, as JSON.stringify does', () => {
+        expect(canonicalize({ a: undefined, b: () => 1, c: [undefined, Symbol('s')] })).toBe('{"c":[null,null]}');
+    });
+
+    it('lets values such as dates serialize themselves', () => {
+        expect(canonicalize({ at: new Date('2025-07-08T19:19:02.114Z') })).toBe('{"at":"2025-07-08T19:19:02.114Z"}');
+    });
+
+    it.each([NaN, Infinity, -Infinity])('rejects the non-finite number %p', (value) => {
+        expect(() => canonicalize({ amount: value })).toThrow('Cannot canonicalize the non-finite number');
+    });
+
+    it('rejects values of types JSON does not have', () => {
+        expect(() => canonicalize(BigInt(1))).toThrow('Cannot canonicalize a value of type bigint');
+    });
+});
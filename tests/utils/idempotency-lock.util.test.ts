@@ -0,0 +1,39 @@
+import IdempotencyLock from '../../src/utils/idempotency-lock.util';
+
+/**
+ * Tests of the leases held by this process, on the in-memory store.
+ */
+describe('IdempotencyLock', () => {
+    afterEach(async () => {
+        await IdempotencyLock.releaseAll();
+    });
+
+    it('reserves a key for a single holder until it is released', async () => {
+        const token = await IdempotencyLock.acquire('key-1', 'hash');
+
+        expect(token).not.toBeNull();
+        expect(await IdempotencyLock.acquire('key-1', 'hash')).toBeNull();
+
+        await IdempotencyLock.release('key-1', token as string);
+        expect(await IdempotencyLock.acquire('key-1', 'hash')).not.toBeNull();
+    });
+
+    describe('waitForAll', () => {
+        it('waits for the requests in flight to release their leases', async () => {
+            const token = await IdempotencyLock.acquire('key-2', 'hash') as string;
+            setTimeout(() => {
+                IdempotencyLock.release('key-2', token);
+            }, 100);
+
+            expect(await IdempotencyLock.waitForAll(5000)).toBe(0);
+            expect(await IdempotencyLock.acquire('key-2', 'hash')).not.toBeNull();
+        });
+
+        it('gives up after the timeout, leaving the unsettled leases held', async () => {
+            await IdempotencyLock.acquire('key-3', 'hash');
+
+            expect(await IdempotencyLock.waitForAll(100)).toBe(1);
+            expect(await IdempotencyLock.acquire('key-3', 'hash')).toBeNull();
+        });
+    });
+});
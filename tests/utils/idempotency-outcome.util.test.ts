@@ -0,0 +1,44 @@
+import AppError from '../../src/exceptions/app-error.exception';
+import { storeDeterministicOutcomes, storeSuccessOnly } from '../../src/utils/idempotency-outcome.util';
+
+const SUCCESSES = [200, 201, 202, 204];
+const DETERMINISTIC_CLIENT_ERRORS = [400, 401, 403, 404, 410, 419, 422];
+const RETRYABLE_CLIENT_ERRORS = [408, 409, 423, 425, 429];
+const SERVER_ERRORS = [500, 502, 503, 504];
+
+describe('storeSuccessOnly', () => {
+    it.each(SUCCESSES)('stores a %i response', (statusCode) => {
+        expect(storeSuccessOnly({ statusCode })).toBe('store');
+    });
+
+    it.each([...DETERMINISTIC_CLIENT_ERRORS, ...RETRYABLE_CLIENT_ERRORS, ...SERVER_ERRORS])('releases the key of a %i response', (statusCode) => {
+        expect(storeSuccessOnly({ statusCode })).toBe('release');
+    });
+
+    it('goes by the status code of the error that produced the response', () => {
+        expect(storeSuccessOnly({ statusCode: 200, error: AppError.InternalServerError("Database error") })).toBe('release');
+    });
+});
+
+describe('storeDeterministicOutcomes', () => {
+    it.each(SUCCESSES)('stores a %i response', (statusCode) => {
+        expect(storeDeterministicOutcomes({ statusCode })).toBe('store');
+    });
+
+    it.each(DETERMINISTIC_CLIENT_ERRORS)('stores a deterministic %i client error', (statusCode) => {
+        expect(storeDeterministicOutcomes({ statusCode })).toBe('store');
+    });
+
+    it.each(RETRYABLE_CLIENT_ERRORS)('releases the key of a retryable %i client error', (statusCode) => {
+        expect(storeDeterministicOutcomes({ statusCode })).toBe('release');
+    });
+
+    it.each(SERVER_ERRORS)('releases the key of a %i server error', (statusCode) => {
+        expect(storeDeterministicOutcomes({ statusCode })).toBe('release');
+    });
+
+    it('goes by the status code of the error that produced the response', () => {
+        expect(storeDeterministicOutcomes({ statusCode: 500, error: AppError.UnprocessableEntity("Validation errors occurred") })).toBe('store');
+        expect(storeDeterministicOutcomes({ statusCode: 400, error: AppError.TooManyRequests("Too many requests") })).toBe('release');
+    });
+});
@@ -0,0 +1,73 @@
+import { Request } from 'express';
+
+import {
+    getIdempotencyScope,
+    parseScopedKey,
+    resolveBatchConsumerPrincipal,
+    resolveConsumerPrincipal,
+    toScopedKey,
+} from '../../src/utils/idempotency-scope.util';
+
+const CONSUMER_A = '8c3a2ed8-7f67-4f0e-aabc-3e2d725f6f01';
+const CONSUMER_B = '9d4b3fe9-8a78-4a1f-bbcd-4f3e836a7a12';
+
+// A request to POST /api/transactions, authenticated as the given principal if any
+const request = (body: unknown, principal?: string): Request => ({
+    method: 'POST',
+    baseUrl: '/api/transactions',
+    route: { path: '/' },
+    body,
+    res: { locals: principal ? { principal } : {} },
+} as unknown as Request);
+
+const batchBody = (...consumerIds: string[]) => ({
+    mode: 'best-effort',
+    items: consumerIds.map((consumerId, index) => ({ idempotencyKey: `key-${index}`, transaction: { type: 'payment', amount: '10.00', currency: 'USD', consumerId } })),
+});
+
+describe('resolveConsumerPrincipal', () => {
+    it('scopes a transaction request by its consumer', () => {
+        const body = { type: 'payment', amount: '10.00', currency: 'USD', consumerId: CONSUMER_A };
+
+        expect(resolveConsumerPrincipal(request(body), body)).toBe(`consumer:${CONSUMER_A}`);
+    });
+
+    it('gives the same key sent for two consumers two scopes', () => {
+        const bodyA = { consumerId: CONSUMER_A };
+        const bodyB = { consumerId: CONSUMER_B };
+
+        const scopedKeyA = toScopedKey(getIdempotencyScope(request(bodyA), 'key-1', resolveConsumerPrincipal));
+        const scopedKeyB = toScopedKey(getIdempotencyScope(request(bodyB), 'key-1', resolveConsumerPrincipal));
+
+        expect(scopedKeyA).not.toBe(scopedKeyB);
+        expect(parseScopedKey(scopedKeyA)).toEqual({ principal: `consumer:${CONSUMER_A}`, method: 'POST', route: '/api/transactions/', key: 'key-1' });
+    });
+
+    it('prefers the authenticated principal', () => {
+        const body = { consumerId: CONSUMER_A };
+
+        expect(resolveConsumerPrincipal(request(body, 'client-a'), body)).toBe('client-a');
+    });
+
+    it.each([[undefined], [{}], [{ consumerId: 42 }], [{ consumerId: '' }], ['consumerId']])('leaves a request without a consumer ID (%p) anonymous', (body) => {
+        expect(resolveConsumerPrincipal(request(body), body)).toBeUndefined();
+    });
+});
+
+describe('resolveBatchConsumerPrincipal', () => {
+    it('scopes a batch by the set of consumers of its items, whatever their order', () => {
+        const principal = resolveBatchConsumerPrincipal(request(batchBody(CONSUMER_A, CONSUMER_B)), batchBody(CONSUMER_A, CONSUMER_B));
+
+        expect(principal).toMatch(/^consumers:[0-9a-f]{64}$/);
+        expect(resolveBatchConsumerPrincipal(request(null), batchBody(CONSUMER_B, CONSUMER_A, CONSUMER_B))).toBe(principal);
+        expect(resolveBatchConsumerPrincipal(request(null), batchBody(CONSUMER_A))).not.toBe(principal);
+    });
+
+    it('prefers the authenticated principal', () => {
+        expect(resolveBatchConsumerPrincipal(request(null, 'client-a'), batchBody(CONSUMER_A))).toBe('client-a');
+    });
+
+    it.each([[undefined], [{}], [{ items: 'none' }], [{ items: [null, { transaction: {} }] }]])('leaves a batch without consumer IDs (%p) anonymous', (body) => {
+        expect(resolveBatchConsumerPrincipal(request(body), body)).toBeUndefined();
+    });
+});
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+import AppError from '../../src/exceptions/app-error.exception';
+import { decodeCursor, encodeCursor, PaginationCursor } from '../../src/utils/pagination-cursor.util';
+
+const SECRET = 'pagination-cursor-test-secret';
+process.env.PAGINATION_CURSOR_SECRET = SECRET; // Read when the first cursor is signed
+
+const CURSOR: PaginationCursor = {
+    createdAt: '2025-07-08T19:19:02.114123Z',
+    id: '8c3a2ed8-7f67-4f0e-aabc-3e2d725f6f01',
+    direction: 'next',
+    sortOrder: 'desc',
+};
+
+// Build a cursor from any payload, signed with the given secret
+const signedCursor = (payload: unknown, secret: string = SECRET): string => {
+    const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+    return `${encodedPayload}.${crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url')}`;
+};
+
+const expectInvalidCursor = (encodedCursor: string): void => {
+    let error: unknown;
+    try {
+        decodeCursor(encodedCursor);
+    } catch (caught) {
+        error = caught;
+    }
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 400, message: "Invalid cursor" });
+};
+
+describe('pagination cursors', () => {
+    it('decodes the cursors it encodes', () => {
+        const encodedCursor = encodeCursor(CURSOR);
+
+        expect(encodedCursor).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+        expect(decodeCursor(encodedCursor)).toEqual(CURSOR);
+    });
+
+    it('signs cursors with the configured secret', () => {
+        expect(encodeCursor(CURSOR)).toBe(signedCursor(CURSOR));
+    });
+
+    it('rejects a cursor signed with another secret', () => {
+        expectInvalidCursor(signedCursor(CURSOR, 'another-secret'));
+    });
+
+    it('rejects a cursor whose position was changed', () => {
+        const [, signature] = encodeCursor(CURSOR).split('.');
+        const [forgedPayload] = signedCursor({ ...CURSOR, id: '9d4b3fe9-8a78-4a1f-bbcd-4f3e836a7a12' }).split('.');
+
+        expectInvalidCursor(`${forgedPayload}.${signature}`);
+    });
+
+    it('rejects a cursor whose signature was changed', () => {
+        const [payload, signature] = encodeCursor(CURSOR).split('.');
+        const forgedSignature = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+
+        expectInvalidCursor(`${payload}.${forgedSignature}`);
+        expectInvalidCursor(`${payload}.${signature.slice(0, -1)}`);
+    });
+
+    it.each([
+        ['an empty cursor', ''],
+        ['a cursor without a signature', encodeCursor(CURSOR).split('.')[0]],
+        ['a cursor without a payload', `.${encodeCursor(CURSOR).split('.')[1]}`],
+        ['a cursor with an extra part', `${encodeCursor(CURSOR)}.extra`],
+        ['a cursor that is not base64url', 'not a cursor!'],
+    ])('rejects %s', (_, encodedCursor) => {
+        expectInvalidCursor(encodedCursor);
+    });
+
+    it('rejects a signed payload that is not JSON', () => {
+        const payload = Buffer.from('{"createdAt":', 'utf8').toString('base64url');
+        expectInvalidCursor(`${payload}.${crypto.createHmac('sha256', SECRET).update(payload).digest('base64url')}`);
+    });
+
+    it.each([
+        ['a timestamp without microseconds', { ...CURSOR, createdAt: '2025-07-08T19:19:02.114Z' }],
+        ['an ID that is not a UUID', { ...CURSOR, id: '1 OR 1=1' }],
+        ['an unknown direction', { ...CURSOR, direction: 'sideways' }],
+        ['an unknown sort order', { ...CURSOR, sortOrder: 'random' }],
+        ['a missing field', { createdAt: CURSOR.createdAt, id: CURSOR.id, direction: CURSOR.direction }],
+        ['a payload that is not an object', [CURSOR]],
+    ])('rejects a signed cursor with %s', (_, payload) => {
+        expectInvalidCursor(signedCursor(payload));
+    });
+});
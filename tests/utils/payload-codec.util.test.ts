@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+
+type PayloadCodec = typeof import('../../src/utils/payload-codec.util').default;
+
+const KEY_1 = `k1:${crypto.randomBytes(32).toString('base64')}`;
+const KEY_2 = `k2:${crypto.randomBytes(32).toString('base64')}`;
+const SCOPED_KEY = 'POST:%2Fapi%2Ftransactions::8c3a2ed8-7f67-4f0e-aabc-3e2d725f6f01';
+const PAYLOAD = JSON.stringify({ message: "Transaction created successfully", data: { id: 'tx-1', amount: '10.00', note: 'Café €5 😀' } });
+const LARGE_PAYLOAD = JSON.stringify({ data: Array.from({ length: 200 }, (_, index) => ({ id: `tx-${index}`, amount: '10.00' })) });
+
+// The codec reads its configuration when it is loaded, so each configuration gets a fresh instance
+const loadCodec = (env: Record<string, string>): PayloadCodec => {
+    const previousEnv = { ...process.env };
+    Object.assign(process.env, { IDEMPOTENCY_PAYLOAD_KEYS: '', IDEMPOTENCY_PAYLOAD_COMPRESSION: 'none', IDEMPOTENCY_PAYLOAD_COMPRESSION_THRESHOLD: '' }, env);
+    try {
+        let codec: PayloadCodec | undefined;
+        jest.isolateModules(() => {
+            // Decoding failures are logged, which the tests expect
+            jest.spyOn(require('../../src/utils/logger.util').default, 'error').mockImplementation(() => undefined);
+            codec = require('../../src/utils/payload-codec.util').default;
+        });
+        return codec as PayloadCodec;
+    } finally {
+        process.env = previousEnv;
+    }
+};
+
+// Flip a bit of the given part of an encoded payload
+const tamper = (encoded: string, partIndex: number): string => {
+    const parts = encoded.split(':');
+    const bytes = Buffer.from(parts[partIndex], 'base64');
+    bytes[0] ^= 1;
+    parts[partIndex] = bytes.toString('base64');
+    return parts.join(':');
+};
+
+// The AppError class of a fresh codec is its own, so the error is recognized by its fields
+const expectDecodeError = async (promise: Promise<string>): Promise<void> => {
+    await expect(promise).rejects.toMatchObject({ statusCode: 500, message: "Stored idempotent response could not be decoded" });
+};
+
+describe('PayloadCodec', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('without encryption or compression', () => {
+        it('stores payloads in plaintext', async () => {
+            const codec = loadCodec({});
+
+            expect(codec.isEncryptionEnabled()).toBe(false);
+            expect(await codec.encode(PAYLOAD, SCOPED_KEY)).toBe(PAYLOAD);
+            expect(await codec.decode(PAYLOAD, SCOPED_KEY)).toBe(PAYLOAD);
+        });
+    });
+
+    describe('compression', () => {
+        it.each([['gzip', 'gzip'], ['brotli', 'br']])('round-trips a payload compressed with %s', async (compression, tag) => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_COMPRESSION: compression });
+
+            const encoded = await codec.encode(LARGE_PAYLOAD, SCOPED_KEY);
+            expect(encoded.startsWith(`pc1:${tag}:::`)).toBe(true);
+            expect(encoded.length).toBeLessThan(LARGE_PAYLOAD.length);
+            expect(await codec.decode(encoded, SCOPED_KEY)).toBe(LARGE_PAYLOAD);
+        });
+
+        it('leaves payloads up to the threshold uncompressed', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_COMPRESSION: 'gzip', IDEMPOTENCY_PAYLOAD_COMPRESSION_THRESHOLD: String(Buffer.byteLength(PAYLOAD)) });
+
+            expect(await codec.encode(PAYLOAD, SCOPED_KEY)).toBe(PAYLOAD);
+        });
+
+        it('rejects a payload that does not decompress', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_COMPRESSION: 'gzip' });
+
+            await expectDecodeError(codec.decode(`pc1:gzip::::${Buffer.from('not gzip').toString('base64')}`, SCOPED_KEY));
+        });
+    });
+
+    describe('encryption', () => {
+        it('round-trips an encrypted payload, with a fresh IV every time', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+
+            const encoded = await codec.encode(PAYLOAD, SCOPED_KEY);
+            expect(codec.isEncryptionEnabled()).toBe(true);
+            expect(encoded.startsWith('pc1:none:k1:')).toBe(true);
+            expect(encoded).not.toContain('tx-1');
+            expect(await codec.encode(PAYLOAD, SCOPED_KEY)).not.toBe(encoded);
+            expect(await codec.decode(encoded, SCOPED_KEY)).toBe(PAYLOAD);
+        });
+
+        it('round-trips a payload compressed then encrypted', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1, IDEMPOTENCY_PAYLOAD_COMPRESSION: 'brotli' });
+
+            const encoded = await codec.encode(LARGE_PAYLOAD, SCOPED_KEY);
+            expect(encoded.startsWith('pc1:br:k1:')).toBe(true);
+            expect(await codec.decode(encoded, SCOPED_KEY)).toBe(LARGE_PAYLOAD);
+        });
+
+        it.each([['IV', 3], ['authentication tag', 4], ['data', 5]])('detects a tampered %s', async (_, partIndex) => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+
+            const encoded = await codec.encode(PAYLOAD, SCOPED_KEY);
+            await expectDecodeError(codec.decode(tamper(encoded, partIndex), SCOPED_KEY));
+        });
+
+        it('rejects a payload moved to another idempotency key', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+
+            const encoded = await codec.encode(PAYLOAD, SCOPED_KEY);
+            await expectDecodeError(codec.decode(encoded, SCOPED_KEY.replace('8c3a', '9d4b')));
+        });
+
+        it('rejects a malformed envelope', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+
+            const encoded = await codec.encode(PAYLOAD, SCOPED_KEY);
+            await expectDecodeError(codec.decode(encoded.split(':').slice(0, 5).join(':'), SCOPED_KEY));
+        });
+
+        it('still returns payloads stored in plaintext before encryption was enabled', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+
+            expect(await codec.decode(PAYLOAD, SCOPED_KEY)).toBe(PAYLOAD);
+        });
+    });
+
+    describe('key rotation', () => {
+        it('encrypts with the first key, and decrypts with any configured key', async () => {
+            const oldCodec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+            const rotatedCodec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: `${KEY_2},${KEY_1}` });
+
+            const oldEncoded = await oldCodec.encode(PAYLOAD, SCOPED_KEY);
+            const newEncoded = await rotatedCodec.encode(PAYLOAD, SCOPED_KEY);
+            expect(newEncoded.startsWith('pc1:none:k2:')).toBe(true);
+            expect(await rotatedCodec.decode(oldEncoded, SCOPED_KEY)).toBe(PAYLOAD);
+            expect(await rotatedCodec.decode(newEncoded, SCOPED_KEY)).toBe(PAYLOAD);
+        });
+
+        it('rejects a payload encrypted with a key that was removed', async () => {
+            const oldCodec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+            const newCodec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_2 });
+
+            await expectDecodeError(newCodec.decode(await oldCodec.encode(PAYLOAD, SCOPED_KEY), SCOPED_KEY));
+        });
+
+        it('rejects a payload encrypted with another key under the same key ID', async () => {
+            const codec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: KEY_1 });
+            const otherCodec = loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: `k1:${crypto.randomBytes(32).toString('base64')}` });
+
+            await expectDecodeError(otherCodec.decode(await codec.encode(PAYLOAD, SCOPED_KEY), SCOPED_KEY));
+        });
+    });
+
+    describe('configuration', () => {
+        it.each([
+            ['a key that is not 256 bits long', `k1:${crypto.randomBytes(16).toString('base64')}`],
+            ['an entry without a key ID', crypto.randomBytes(32).toString('base64')],
+            ['an invalid key ID', `k 1:${crypto.randomBytes(32).toString('base64')}`],
+        ])('rejects %s', (_, keys) => {
+            expect(() => loadCodec({ IDEMPOTENCY_PAYLOAD_KEYS: keys })).toThrow('Invalid IDEMPOTENCY_PAYLOAD_KEYS entry');
+        });
+
+        it('rejects an unknown compression', () => {
+            expect(() => loadCodec({ IDEMPOTENCY_PAYLOAD_COMPRESSION: 'zstd' })).toThrow('Invalid IDEMPOTENCY_PAYLOAD_COMPRESSION "zstd"');
+        });
+    });
+});